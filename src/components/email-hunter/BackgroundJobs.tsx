@@ -0,0 +1,160 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { AlertTriangle, Loader2, RefreshCw } from "lucide-react";
+
+interface Job {
+  id: string;
+  type: 'crawl' | 'generate' | 'verify';
+  status: 'queued' | 'running' | 'succeeded' | 'dead';
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_until: string | null;
+  last_error: string | null;
+  updated_at: string;
+}
+
+interface BackgroundJobsProps {
+  testId: string;
+  testStatus: string;
+  // True while the page itself is generating or streaming verification for this test
+  busy: boolean;
+  onChanged: () => void;
+}
+
+// Queued jobs this far past due mean no worker has run
+const OVERDUE_MS = 5 * 60 * 1000;
+
+const JOB_LABELS: Record<Job['type'], string> = {
+  crawl: 'Domain crawl',
+  generate: 'Candidate generation',
+  verify: 'Verification',
+};
+
+function jobProblem(job: Job, now: number): string | null {
+  if (job.status === 'dead') return 'Failed';
+  if (job.status === 'running' && job.locked_until && new Date(job.locked_until).getTime() < now) return 'Stuck';
+  if (job.status === 'queued' && new Date(job.run_at).getTime() < now - OVERDUE_MS) return 'Waiting for worker';
+  return null;
+}
+
+export const BackgroundJobs = ({ testId, testStatus, busy, onChanged }: BackgroundJobsProps) => {
+  const { toast } = useToast();
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+
+  const fetchJobs = async () => {
+    const { data, error } = await supabase
+      .from('jobs')
+      .select('id, type, status, attempts, max_attempts, run_at, locked_until, last_error, updated_at')
+      .eq('test_id', testId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching jobs:', error);
+      return;
+    }
+    setJobs((data || []) as Job[]);
+  };
+
+  useEffect(() => {
+    fetchJobs();
+  }, [testId, testStatus]);
+
+  // The worker runs the requeued job before answering, so this can take a while
+  const runWorker = async (key: string, body: Record<string, string>, queuedMessage: string) => {
+    setPendingAction(key);
+    toast({ title: queuedMessage });
+    try {
+      const { data, error } = await supabase.functions.invoke('process-jobs', { body });
+      if (error) throw error;
+      if (data?.dead > 0) {
+        toast({
+          title: "Job failed again",
+          description: data.jobs?.find((job: { error?: string }) => job.error)?.error,
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Could not run background jobs",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setPendingAction(null);
+      await fetchJobs();
+      onChanged();
+    }
+  };
+
+  const now = Date.now();
+  const problems = jobs
+    .map(job => ({ job, problem: jobProblem(job, now) }))
+    .filter((entry): entry is { job: Job; problem: string } => entry.problem !== null);
+  const hasActiveJob = jobs.some(job => (job.status === 'queued' || job.status === 'running') && !jobProblem(job, now));
+  const canResume = !busy && !hasActiveJob && ['generating', 'verifying', 'failed'].includes(testStatus);
+
+  if (problems.length === 0 && !canResume) return null;
+
+  return (
+    <Card className="border-amber-200 dark:border-amber-800">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-amber-600" />
+          Background Jobs
+        </CardTitle>
+        <CardDescription>
+          Work for this test that failed or stopped before finishing
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {problems.map(({ job, problem }) => (
+          <div key={job.id} className="flex items-start justify-between gap-4 p-3 border rounded-lg">
+            <div className="space-y-1 min-w-0">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{JOB_LABELS[job.type]}</span>
+                <Badge variant={problem === 'Failed' ? 'destructive' : 'secondary'}>{problem}</Badge>
+                <span className="text-xs text-muted-foreground">
+                  {job.attempts}/{job.max_attempts} attempts
+                </span>
+              </div>
+              {job.last_error && (
+                <p className="text-xs text-muted-foreground break-words">{job.last_error}</p>
+              )}
+            </div>
+            <Button
+              size="sm"
+              variant="outline"
+              disabled={pendingAction !== null}
+              onClick={() => runWorker(job.id, { retryJobId: job.id }, `Retrying ${JOB_LABELS[job.type].toLowerCase()}`)}
+            >
+              {pendingAction === job.id ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+              Retry
+            </Button>
+          </div>
+        ))}
+
+        {canResume && (
+          <div className="flex items-center justify-between gap-4 p-3 border rounded-lg bg-muted/30">
+            <p className="text-sm text-muted-foreground">
+              This test stopped while {testStatus === 'generating' ? 'generating candidates' : 'verifying candidates'} and nothing is queued to finish it.
+            </p>
+            <Button
+              size="sm"
+              disabled={pendingAction !== null}
+              onClick={() => runWorker('resume', { resumeTestId: testId }, 'Resuming test')}
+            >
+              {pendingAction === 'resume' ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <RefreshCw className="h-4 w-4 mr-2" />}
+              Resume
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -5,7 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/components/ui/use-toast";
-import { Search, Globe, Mail, TrendingUp, RefreshCw, ExternalLink } from "lucide-react";
+import { Search, Globe, Mail, TrendingUp, RefreshCw, ExternalLink, Server, ShieldCheck, AlertTriangle } from "lucide-react";
 
 interface CrawlSession {
   id: string;
@@ -44,6 +44,35 @@ interface FoundEmail {
   confidence_score: number;
 }
 
+interface DomainFacts {
+  domain: string;
+  mx_records: string[];
+  provider: string | null;
+  provider_kind: string | null;
+  provider_accepts_all: boolean;
+  catch_all: boolean | null;
+  checked_at: string;
+}
+
+interface AuthFinding {
+  level: 'error' | 'warning';
+  message: string;
+  check: string;
+}
+
+interface DomainAuthReport {
+  domain: string;
+  spf: { record?: string; valid: boolean; all?: string; lookupCount: number };
+  dmarc: { record?: string; valid: boolean; policy?: string; pct?: number };
+  mta_sts: { record?: string; valid: boolean; policy?: { mode?: string } };
+  tls_rpt: { record?: string; valid: boolean };
+  bimi: { record?: string; valid: boolean };
+  findings: AuthFinding[];
+  error_count: number;
+  warning_count: number;
+  checked_at: string;
+}
+
 interface CrawlInsightsProps {
   domain: string;
 }
@@ -54,6 +83,9 @@ export const CrawlInsights = ({ domain }: CrawlInsightsProps) => {
   const [crawlSession, setCrawlSession] = useState<CrawlSession | null>(null);
   const [patterns, setPatterns] = useState<EmailPattern[]>([]);
   const [foundEmails, setFoundEmails] = useState<FoundEmail[]>([]);
+  const [domainFacts, setDomainFacts] = useState<DomainFacts | null>(null);
+  const [authReport, setAuthReport] = useState<DomainAuthReport | null>(null);
+  const [analyzing, setAnalyzing] = useState(false);
 
   const fetchCrawlData = async () => {
     try {
@@ -97,6 +129,32 @@ export const CrawlInsights = ({ domain }: CrawlInsightsProps) => {
       } else if (emailData) {
         setFoundEmails(emailData);
       }
+
+      // Fetch mail provider and other facts recorded during verification
+      const { data: factsData, error: factsError } = await supabase
+        .from('domain_facts')
+        .select('*')
+        .eq('domain', domain.toLowerCase())
+        .maybeSingle();
+
+      if (factsError) {
+        console.error('Error fetching domain facts:', factsError);
+      } else {
+        setDomainFacts(factsData);
+      }
+
+      // Fetch the latest mail setup snapshot
+      const { data: authData, error: authError } = await supabase
+        .from('domain_auth_reports')
+        .select('*')
+        .eq('domain', domain.toLowerCase())
+        .maybeSingle();
+
+      if (authError) {
+        console.error('Error fetching mail setup report:', authError);
+      } else {
+        setAuthReport(authData as unknown as DomainAuthReport | null);
+      }
     } catch (error) {
       console.error('Error fetching crawl data:', error);
     }
@@ -138,6 +196,48 @@ export const CrawlInsights = ({ domain }: CrawlInsightsProps) => {
     }
   };
 
+  const analyzeMailSetup = async () => {
+    setAnalyzing(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('analyze-domain', {
+        body: { domain }
+      });
+
+      if (error) {
+        throw error;
+      }
+
+      if (!data?.success) {
+        throw new Error(data?.error || 'Failed to analyze mail setup');
+      }
+
+      await fetchCrawlData();
+    } catch (error) {
+      console.error('Error analyzing mail setup:', error);
+      toast({
+        title: "Analysis Failed",
+        description: (error as Error).message || 'Failed to analyze mail setup',
+        variant: "destructive",
+        duration: 5000,
+      });
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  const getCheckBadge = (label: string, present: boolean, valid: boolean, detail?: string) => {
+    const variant = !present ? 'outline' : valid ? 'default' : 'destructive';
+    return (
+      <div className="flex items-center justify-between p-2 border rounded-lg">
+        <span className="text-sm font-medium">{label}</span>
+        <div className="flex items-center gap-2">
+          {detail && <span className="text-xs text-muted-foreground">{detail}</span>}
+          <Badge variant={variant}>{!present ? 'Missing' : valid ? 'OK' : 'Issues'}</Badge>
+        </div>
+      </div>
+    );
+  };
+
   useEffect(() => {
     if (domain) {
       fetchCrawlData();
@@ -253,6 +353,98 @@ export const CrawlInsights = ({ domain }: CrawlInsightsProps) => {
         </CardContent>
       </Card>
 
+      {/* Mail Provider */}
+      {domainFacts?.provider && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Server className="h-5 w-5 text-primary" />
+              Mail Provider
+            </CardTitle>
+            <CardDescription>
+              Fingerprinted from the domain's MX hosts on {new Date(domainFacts.checked_at).toLocaleString()}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-lg font-semibold">{domainFacts.provider}</span>
+              {domainFacts.provider_kind === 'gateway' && (
+                <Badge variant="secondary">Security Gateway</Badge>
+              )}
+              {domainFacts.provider_accepts_all && (
+                <Badge variant="outline">Accepts all recipients</Badge>
+              )}
+              {domainFacts.catch_all && (
+                <Badge variant="outline">Catch-all</Badge>
+              )}
+            </div>
+            {domainFacts.mx_records.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {domainFacts.mx_records.map((host) => (
+                  <code key={host} className="text-xs bg-muted px-2 py-1 rounded">
+                    {host}
+                  </code>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Mail Setup */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5 text-primary" />
+              Mail Setup
+            </CardTitle>
+            <CardDescription>
+              {authReport
+                ? `SPF, DMARC, MTA-STS, TLS-RPT and BIMI as of ${new Date(authReport.checked_at).toLocaleString()}`
+                : 'Check the domain\'s email authentication records before trusting verification results'}
+            </CardDescription>
+          </div>
+          <Button
+            onClick={analyzeMailSetup}
+            disabled={analyzing}
+            size="sm"
+            variant="outline"
+            className="flex items-center gap-2"
+          >
+            <RefreshCw className={`h-4 w-4 ${analyzing ? 'animate-spin' : ''}`} />
+            {authReport ? 'Re-analyze' : 'Analyze'}
+          </Button>
+        </CardHeader>
+        {authReport && (
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {getCheckBadge('SPF', !!authReport.spf.record, authReport.spf.valid,
+                authReport.spf.record ? `${authReport.spf.lookupCount}/10 lookups${authReport.spf.all ? `, ${authReport.spf.all}all` : ''}` : undefined)}
+              {getCheckBadge('DMARC', !!authReport.dmarc.record, authReport.dmarc.valid,
+                authReport.dmarc.policy ? `p=${authReport.dmarc.policy}${authReport.dmarc.pct !== undefined && authReport.dmarc.pct < 100 ? ` (${authReport.dmarc.pct}%)` : ''}` : undefined)}
+              {getCheckBadge('MTA-STS', !!authReport.mta_sts.record, authReport.mta_sts.valid,
+                authReport.mta_sts.policy?.mode ? `mode: ${authReport.mta_sts.policy.mode}` : undefined)}
+              {getCheckBadge('TLS-RPT', !!authReport.tls_rpt.record, authReport.tls_rpt.valid)}
+              {getCheckBadge('BIMI', !!authReport.bimi.record, authReport.bimi.valid)}
+            </div>
+            {authReport.findings.length > 0 && (
+              <div className="space-y-1">
+                {authReport.findings.map((finding, index) => (
+                  <div key={index} className="flex items-start gap-2 text-sm">
+                    <AlertTriangle className={`h-4 w-4 mt-0.5 shrink-0 ${finding.level === 'error' ? 'text-destructive' : 'text-amber-500'}`} />
+                    <span>
+                      <span className="font-mono text-xs uppercase text-muted-foreground mr-2">{finding.check.replace('_', '-')}</span>
+                      {finding.message}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        )}
+      </Card>
+
       {/* Email Patterns */}
       {patterns.length > 0 && (
         <Card>
@@ -7,18 +7,48 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, Building, User, Globe, Hash } from 'lucide-react';
+import { Loader2, Building, User, Globe, Hash, AlertTriangle } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/components/auth/AuthProvider';
+import { parseDomain } from '@/lib/email-address';
+import { isFreeWebmailDomain } from '@/lib/domain-match';
+import { parseEmailPattern } from '@/lib/email-pattern';
 
 const testSchema = z.object({
   firstName: z.string().min(1, 'First name is required').max(50, 'First name too long'),
   lastName: z.string().min(1, 'Last name is required').max(50, 'Last name too long'),
+  middleName: z.string().max(50, 'Middle name too long').optional(),
+  // first/last are always the given/family names; this only decides which one is written first
+  nameOrder: z.enum(['given_first', 'family_first']).default('given_first'),
   companyName: z.string().optional(),
   domain: z.string()
     .min(1, 'Domain is required')
-    .regex(/^[a-zA-Z0-9]([a-zA-Z0-9\-]{0,61}[a-zA-Z0-9])?(\.[a-zA-Z0-9]([a-zA-Z0-9\-]{0,61}[a-zA-Z0-9])?)*$/, 'Invalid domain format'),
+    .superRefine((value, ctx) => {
+      const parsed = parseDomain(value, { allowIpLiteral: false });
+      if (parsed.ok === false) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: parsed.message });
+      }
+    })
+    // IDN domains are stored in their ASCII (punycode) form, which is what DNS and SMTP use
+    .transform((value) => {
+      const parsed = parseDomain(value, { allowIpLiteral: false });
+      return parsed.ok ? parsed.domain : value;
+    }),
+  // Comma-separated templates such as {f}{last:7}, checked with the same parser generation uses
+  customPatterns: z.string()
+    .optional()
+    .transform((value) => (value ?? '').split(',').map(pattern => pattern.trim()).filter(Boolean))
+    .superRefine((patterns, ctx) => {
+      for (const pattern of patterns) {
+        const parsed = parseEmailPattern(pattern);
+        if (parsed.ok === false) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, message: `${pattern}: ${parsed.message}` });
+          return;
+        }
+      }
+    }),
 });
 
 type TestFormData = z.infer<typeof testSchema>;
@@ -35,11 +65,18 @@ export const NewTestForm: React.FC<NewTestFormProps> = ({ onTestCreated }) => {
   const {
     register,
     handleSubmit,
+    watch,
+    setValue,
     formState: { errors },
   } = useForm<TestFormData>({
     resolver: zodResolver(testSchema),
+    defaultValues: { nameOrder: 'given_first' },
   });
 
+  // Webmail addresses are not derived from a person's name, so pattern generation has nothing to find
+  const domainValue = watch('domain');
+  const isWebmailDomain = !!domainValue && domainValue.includes('.') && isFreeWebmailDomain(domainValue);
+
   const onSubmit = async (data: TestFormData) => {
     if (!user) {
       toast({
@@ -61,6 +98,9 @@ export const NewTestForm: React.FC<NewTestFormProps> = ({ onTestCreated }) => {
           company_name: data.companyName || null,
           first_name: data.firstName,
           last_name: data.lastName,
+          middle_name: data.middleName?.trim() || null,
+          name_order: data.nameOrder,
+          custom_patterns: data.customPatterns,
           status: 'pending',
         })
         .select()
@@ -121,7 +161,7 @@ export const NewTestForm: React.FC<NewTestFormProps> = ({ onTestCreated }) => {
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             <div className="space-y-2">
-              <Label htmlFor="firstName">First Name *</Label>
+              <Label htmlFor="firstName">First (Given) Name *</Label>
               <div className="relative">
                 <User className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                 <Input
@@ -137,7 +177,7 @@ export const NewTestForm: React.FC<NewTestFormProps> = ({ onTestCreated }) => {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="lastName">Last Name *</Label>
+              <Label htmlFor="lastName">Last (Family) Name *</Label>
               <div className="relative">
                 <User className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
                 <Input
@@ -151,6 +191,38 @@ export const NewTestForm: React.FC<NewTestFormProps> = ({ onTestCreated }) => {
                 <p className="text-sm text-destructive">{errors.lastName.message}</p>
               )}
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="middleName">Middle Name (Optional)</Label>
+              <div className="relative">
+                <User className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                <Input
+                  id="middleName"
+                  placeholder="Quincy"
+                  className="pl-10"
+                  {...register('middleName')}
+                />
+              </div>
+              {errors.middleName && (
+                <p className="text-sm text-destructive">{errors.middleName.message}</p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="nameOrder">Name Order</Label>
+              <Select
+                value={watch('nameOrder')}
+                onValueChange={(value) => setValue('nameOrder', value as TestFormData['nameOrder'])}
+              >
+                <SelectTrigger id="nameOrder">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="given_first">Given name first (John Doe)</SelectItem>
+                  <SelectItem value="family_first">Family name first (Kim Min-jun, Nagy Péter)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
           </div>
 
           <div className="space-y-2">
@@ -180,11 +252,41 @@ export const NewTestForm: React.FC<NewTestFormProps> = ({ onTestCreated }) => {
             {errors.domain && (
               <p className="text-sm text-destructive">{errors.domain.message}</p>
             )}
+            {!errors.domain && isWebmailDomain && (
+              <div className="flex items-start gap-2 p-3 text-sm rounded-md border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-950 text-amber-800 dark:text-amber-200">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>
+                  {domainValue.trim().toLowerCase()} is a free webmail provider. Addresses there are chosen by each
+                  user rather than following a company pattern, so generated candidates are unlikely to find this person.
+                </span>
+              </div>
+            )}
             <p className="text-xs text-muted-foreground">
               Enter the domain without protocol (e.g., example.com, not https://example.com)
             </p>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="customPatterns">Custom Patterns (Optional)</Label>
+            <div className="relative">
+              <Hash className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+              <Input
+                id="customPatterns"
+                placeholder="{f}{last:7}, {first}[.{m}].{last}"
+                className="pl-10 font-mono"
+                {...register('customPatterns')}
+              />
+            </div>
+            {errors.customPatterns && (
+              <p className="text-sm text-destructive">{errors.customPatterns.message}</p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Comma-separated. Use {'{first}'}, {'{last}'}, {'{middle}'} or their initials {'{f}'}, {'{l}'}, {'{m}'};
+              {' {name1}'} and {'{name2}'} follow the name order. {'{last:7}'} keeps the first 7 letters and [ ] marks an
+              optional part. These are tried before any other pattern.
+            </p>
+          </div>
+
           <div className="space-y-4 p-4 border border-border rounded-md bg-gradient-to-br from-primary/5 to-secondary/5">
             <div className="text-sm font-medium text-foreground">
               Comprehensive Email Verification
@@ -7,6 +7,8 @@ import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { Loader2, Mail, CheckCircle, XCircle, AlertCircle } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import { parseEmailAddress } from '@/lib/email-address';
+import { PROVIDER_DOMAINS, suggestDomain } from '@/lib/domain-suggestions';
 
 interface TestResult {
   email: string;
@@ -17,33 +19,67 @@ interface TestResult {
   verificationLevel: 'technical' | 'delivery_confirmed' | 'failed';
 }
 
+interface DomainSuggestion {
+  email: string;
+  domain: string;
+}
+
 export const TestEmailForm: React.FC = () => {
   const [testEmail, setTestEmail] = useState('');
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<TestResult | null>(null);
+  const [suggestion, setSuggestion] = useState<DomainSuggestion | null>(null);
   const { toast } = useToast();
 
   const handleTestDelivery = async (e: React.FormEvent) => {
     e.preventDefault();
-    
-    if (!testEmail || !testEmail.includes('@')) {
+    await runDeliveryTest(testEmail, true);
+  };
+
+  // Catch a mistyped provider domain before sending real mail to it; checked locally against the
+  // provider list, the same rules verification uses
+  const findSuggestion = (localPart: string, domain: string): DomainSuggestion | null => {
+    const found = suggestDomain(domain, PROVIDER_DOMAINS);
+    return found ? { email: `${localPart}@${found.domain}`, domain: found.domain } : null;
+  };
+
+  const applySuggestion = async () => {
+    if (!suggestion) return;
+    setTestEmail(suggestion.email);
+    await runDeliveryTest(suggestion.email, false);
+  };
+
+  const runDeliveryTest = async (address: string, checkTypos: boolean) => {
+    setSuggestion(null);
+
+    const parsed = parseEmailAddress(address);
+    if (parsed.ok === false) {
       toast({
         title: "Invalid email",
-        description: "Please enter a valid email address",
+        description: parsed.message,
         variant: "destructive",
       });
       return;
     }
 
-    setLoading(true);
     setResult(null);
 
+    if (checkTypos) {
+      const found = findSuggestion(parsed.localPart, parsed.domain);
+      if (found) {
+        setSuggestion(found);
+        return;
+      }
+    }
+
+    setLoading(true);
+
     try {
-      console.log('Testing real delivery to:', testEmail);
+      console.log('Testing real delivery to:', address);
       
       const response = await supabase.functions.invoke('test-real-delivery', {
         body: { 
-          testEmail: testEmail.toLowerCase().trim(),
+          testEmail: parsed.address.toLowerCase(),
           testId: 'manual-test'
         }
       });
@@ -57,7 +93,7 @@ export const TestEmailForm: React.FC = () => {
       if (response.data?.deliveryConfirmed) {
         toast({
           title: "✅ Delivery Confirmed!",
-          description: `Email successfully delivered to ${testEmail}`,
+          description: `Email successfully delivered to ${address}`,
         });
       } else {
         toast({
@@ -71,7 +107,7 @@ export const TestEmailForm: React.FC = () => {
       console.error('Test delivery error:', error);
       
       setResult({
-        email: testEmail,
+        email: address,
         deliveryConfirmed: false,
         error: error.message,
         timestamp: new Date().toISOString(),
@@ -152,6 +188,25 @@ export const TestEmailForm: React.FC = () => {
           </Button>
         </form>
 
+        {suggestion && (
+          <div className="p-4 border border-amber-200 dark:border-amber-800 rounded-lg bg-amber-50 dark:bg-amber-950 space-y-3">
+            <div className="flex items-center gap-2 text-sm text-amber-800 dark:text-amber-200">
+              <AlertCircle className="h-4 w-4" />
+              <span>
+                Did you mean <strong>{suggestion.email}</strong>?
+              </span>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <Button size="sm" onClick={applySuggestion} disabled={loading}>
+                Test {suggestion.email}
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => runDeliveryTest(testEmail, false)} disabled={loading}>
+                Send to {testEmail} anyway
+              </Button>
+            </div>
+          </div>
+        )}
+
         {result && (
           <div className="mt-6 p-4 border rounded-lg bg-muted/50">
             <div className="flex items-center gap-2 mb-3">
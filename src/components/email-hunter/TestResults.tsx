@@ -8,13 +8,20 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/components/auth/AuthProvider';
-import { Download, Search, Loader2, Mail } from "lucide-react";
+import { canonicalizeEmail } from '@/lib/canonical-email';
+import { useVerificationStream } from '@/hooks/use-verification-stream';
+import { Download, Search, Loader2, Mail, RefreshCw } from "lucide-react";
 import { CrawlInsights } from './CrawlInsights';
+import { BackgroundJobs } from './BackgroundJobs';
+import { TestTimeline } from './TestTimeline';
 
 interface EmailCandidate {
   id: string;
   email_address: string;
+  canonical_email?: string | null;
   email_pattern: string;
+  priority_score: number;
+  ranking_source: string;
   verification_status: string;
   verification_result?: any;
   delivery_response?: string;
@@ -27,7 +34,10 @@ interface Test {
   domain: string;
   first_name: string;
   last_name: string;
+  middle_name?: string | null;
+  name_order: string; // given_first or family_first
   company_name?: string;
+  custom_patterns: string[];
   status: string;
   created_at: string;
   updated_at: string;
@@ -35,11 +45,12 @@ interface Test {
 
 interface TestResultsProps {
   testId?: string;
+  onTestCreated?: (testId: string) => void;
 }
 
 interface GenerationProgress {
   isGenerating: boolean;
-  progress: number;
+  progress: number | null; // null while a step has no measurable progress
   currentStep: string;
 }
 
@@ -48,24 +59,73 @@ function getStatusIcon(status: string) {
   return null;
 }
 
-function getStatusBadge(status: string) {
+function getStatusBadge(status: string, reasons: string[] = []) {
+  const title = reasons.length > 0 ? reasons.join(', ') : undefined;
   switch (status) {
-    case 'valid':
-      return <Badge variant="default" className="bg-primary/10 text-primary">Valid</Badge>;
+    case 'deliverable':
+      return <Badge variant="default" className="bg-primary/10 text-primary" title={title}>Deliverable</Badge>;
+    case 'undeliverable':
+      return <Badge variant="destructive" title={title}>Undeliverable</Badge>;
+    case 'accept_all':
+      return <Badge variant="outline" className="border-amber-500/50 text-amber-700 dark:text-amber-400" title={title}>Accept-All</Badge>;
+    case 'risky':
+      return <Badge variant="outline" className="border-orange-500/50 text-orange-700 dark:text-orange-400" title={title}>Risky</Badge>;
     case 'delivery_confirmed':
       return <Badge variant="default" className="bg-emerald-500/10 text-emerald-700 dark:text-emerald-400">✉️ Delivery Confirmed</Badge>;
     case 'delivery_failed':
       return <Badge variant="destructive">❌ Delivery Failed</Badge>;
-    case 'invalid': 
-      return <Badge variant="destructive">Invalid</Badge>;
+    case 'bounced':
+      return <Badge variant="destructive">Bounced</Badge>;
+    case 'deferred':
+      return <Badge variant="secondary" title={title}>Deferred (retrying)</Badge>;
     case 'pending':
       return <Badge variant="secondary">Pending</Badge>;
     default:
-      return <Badge variant="outline">Unknown</Badge>;
+      return <Badge variant="outline" title={title}>Unknown</Badge>;
   }
 }
 
-export const TestResults: React.FC<TestResultsProps> = ({ testId }) => {
+// The person's name in the order they write it: John Q Doe, or Kim Min-jun for a family-name-first name
+function formatTestName(test: Test): string {
+  const given = [test.first_name, test.middle_name].filter(Boolean).join(' ');
+  return test.name_order === 'family_first' ? `${test.last_name} ${given}` : `${given} ${test.last_name}`;
+}
+
+// Spelling changes generation made to the name (see _shared/name-normalization.ts)
+const NAME_VARIANT_LABELS: Record<string, string> = {
+  expanded: 'umlauts spelled out',
+  hyphenated: 'hyphen kept',
+  apostrophe: 'apostrophe kept',
+  without_particles: 'surname particles dropped',
+  first_part: 'first part of the name',
+  last_part: 'last part of the surname',
+  nickname: 'short form of the first name',
+};
+
+interface NameVariant {
+  first: string | null;
+  last: string | null;
+  kinds: string[];
+}
+
+// Explains a candidate rendered from something other than the name as entered, e.g. bill for William
+function getNameVariantBadge(variant: NameVariant | null | undefined, test: Test | null) {
+  if (!variant || variant.kinds.length === 0) return null;
+
+  const spelled = [variant.first, variant.last].filter(Boolean).join(' ');
+  const entered = test ? ` from "${formatTestName(test)}"` : '';
+  return (
+    <Badge
+      variant="outline"
+      className="ml-2 font-sans"
+      title={`"${spelled}"${entered}: ${variant.kinds.map(kind => NAME_VARIANT_LABELS[kind] ?? kind).join(', ')}`}
+    >
+      {variant.kinds.includes('nickname') ? 'Nickname' : 'Spelling'}
+    </Badge>
+  );
+}
+
+export const TestResults: React.FC<TestResultsProps> = ({ testId, onTestCreated }) => {
   const [test, setTest] = useState<Test | null>(null);
   const [emailCandidates, setEmailCandidates] = useState<EmailCandidate[]>([]);
   const [loading, setLoading] = useState(true);
@@ -74,6 +134,7 @@ export const TestResults: React.FC<TestResultsProps> = ({ testId }) => {
     progress: 0, 
     currentStep: '' 
   });
+  const verification = useVerificationStream();
   const { user } = useAuth();
   const { toast } = useToast();
 
@@ -98,7 +159,8 @@ export const TestResults: React.FC<TestResultsProps> = ({ testId }) => {
         .from('email_candidates')
         .select('*')
         .eq('test_id', testId)
-        .order('verification_status', { ascending: false });
+        .order('verification_status', { ascending: false })
+        .order('priority_score', { ascending: false });
 
       if (candidatesError) throw candidatesError;
       setEmailCandidates(candidatesData || []);
@@ -123,12 +185,8 @@ export const TestResults: React.FC<TestResultsProps> = ({ testId }) => {
     try {
       // Prioritize high-probability emails for testing
       const validCandidates = emailCandidates
-        .filter(c => c.verification_status === 'valid')
-        .sort((a, b) => {
-          const scoreA = a.verification_result?.priority_score || 0;
-          const scoreB = b.verification_result?.priority_score || 0;
-          return scoreB - scoreA;
-        });
+        .filter(c => c.verification_status === 'deliverable')
+        .sort((a, b) => b.priority_score - a.priority_score);
       
       const totalEmails = Math.min(validCandidates.length, 8); // Test up to 8 highest priority emails
       let deliveryConfirmed = 0;
@@ -140,7 +198,7 @@ export const TestResults: React.FC<TestResultsProps> = ({ testId }) => {
         setGenerationProgress({ 
           isGenerating: true, 
           progress, 
-          currentStep: `Testing real delivery: ${candidate.email_address} (Priority: ${candidate.verification_result?.priority_score || 0})` 
+          currentStep: `Testing real delivery: ${candidate.email_address} (Priority: ${candidate.priority_score})` 
         });
 
         // Use the new real delivery test function
@@ -202,31 +260,26 @@ export const TestResults: React.FC<TestResultsProps> = ({ testId }) => {
     }
   };
 
+  // Also the "Regenerate" action: generation is idempotent, so a re-run only adds candidates the test
+  // does not have yet and verifies those, keeping existing results
   const startEmailGeneration = async () => {
     if (!test?.id) return;
 
-    setGenerationProgress({ isGenerating: true, progress: 0, currentStep: 'Initializing...' });
+    const regenerating = emailCandidates.length > 0;
+    setGenerationProgress({ isGenerating: true, progress: null, currentStep: 'Initializing...' });
     
     try {
-      // Step 1: Start crawling
-      setGenerationProgress({ isGenerating: true, progress: 20, currentStep: 'Crawling domain for emails...' });
-      const crawlResponse = await supabase.functions.invoke('crawl-domain', {
-        body: { domain: test.domain }
-      });
-
-      if (crawlResponse.error) {
-        throw new Error(crawlResponse.error.message);
-      }
-
-      // Step 2: Generate candidates
-      setGenerationProgress({ isGenerating: true, progress: 40, currentStep: 'Generating email candidates...' });
+      // Step 1: Generate candidates (which starts a domain crawl when there are no patterns yet);
+      // verification is streamed below rather than run in the background
+      setGenerationProgress({ isGenerating: true, progress: null, currentStep: 'Generating email candidates...' });
       const response = await supabase.functions.invoke('generate-email-candidates', {
         body: { 
           testId: test.id,
           domain: test.domain,
           firstName: test.first_name,
           lastName: test.last_name,
-          companyName: test.company_name
+          companyName: test.company_name,
+          verify: false
         }
       });
 
@@ -234,8 +287,29 @@ export const TestResults: React.FC<TestResultsProps> = ({ testId }) => {
         throw new Error(response.error.message);
       }
 
-      // Step 3: Verification is handled automatically by generate-email-candidates
-      setGenerationProgress({ isGenerating: true, progress: 70, currentStep: 'Advanced verification in progress...' });
+      await fetchTestData();
+
+      // Step 2: Verify what is new or still unverified, updating each candidate as its result arrives
+      const emails: string[] = response.data?.emails ?? [];
+      let summary: Record<string, number> | null = null;
+      if (emails.length > 0) {
+        setGenerationProgress({ isGenerating: true, progress: 0, currentStep: 'Verifying candidates...' });
+        summary = await verification.start(emails, {
+          testId: test.id,
+          onResult: result => {
+            setEmailCandidates(prev => prev.map(candidate =>
+              candidate.email_address === result.email
+                ? {
+                    ...candidate,
+                    verification_status: result.status,
+                    // The stored result keeps the name variant alongside the verdict
+                    verification_result: { ...result, name_variant: candidate.verification_result?.name_variant },
+                  }
+                : candidate
+            ));
+          }
+        });
+      }
 
       setGenerationProgress({ isGenerating: true, progress: 100, currentStep: 'Complete!' });
       
@@ -246,10 +320,18 @@ export const TestResults: React.FC<TestResultsProps> = ({ testId }) => {
         setGenerationProgress({ isGenerating: false, progress: 0, currentStep: '' });
       }, 1000);
 
-      toast({
-        title: "Email generation completed",
-        description: `Generated and verified ${response.data?.candidates_generated || 'email'} candidates`,
-      });
+      const added = response.data?.added ?? 0;
+      const reranked = response.data?.reranked ?? 0;
+      toast(regenerating
+        ? {
+            title: added > 0 ? "Candidates regenerated" : "No new candidates",
+            description: `${added} added, ${reranked} re-ranked, ${response.data?.unchanged ?? 0} unchanged` +
+              (summary ? ` (${summary.deliverable ?? 0} new deliverable)` : ''),
+          }
+        : {
+            title: "Email generation completed",
+            description: `Generated and verified ${response.data?.candidates_generated || 'email'} candidates (${summary?.deliverable ?? 0} deliverable)`,
+          });
 
     } catch (error) {
       console.error('Error generating emails:', error);
@@ -262,15 +344,71 @@ export const TestResults: React.FC<TestResultsProps> = ({ testId }) => {
     }
   };
 
+  // Start a fresh test for the same person on the domain verification suggested instead
+  const rerunWithDomain = async (domain: string) => {
+    if (!test || !user) return;
+
+    try {
+      const { data: newTest, error } = await supabase
+        .from('tests')
+        .insert({
+          user_id: user.id,
+          domain,
+          company_name: test.company_name || null,
+          first_name: test.first_name,
+          last_name: test.last_name,
+          middle_name: test.middle_name || null,
+          name_order: test.name_order,
+          custom_patterns: test.custom_patterns,
+          status: 'pending',
+        })
+        .select()
+        .single();
+
+      if (error || !newTest) {
+        throw new Error(error?.message || 'Failed to create test');
+      }
+
+      await supabase.functions.invoke('generate-email-candidates', {
+        body: { testId: newTest.id }
+      });
+
+      toast({
+        title: "Re-verifying",
+        description: `Started a new test for ${domain}`,
+      });
+
+      onTestCreated?.(newTest.id);
+    } catch (error) {
+      console.error('Error re-running test:', error);
+      toast({
+        title: "Re-verify failed",
+        description: error instanceof Error ? error.message : "Unknown error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
   const exportResults = () => {
     if (emailCandidates.length === 0) return;
 
+    // One row per mailbox, however many spellings of it were generated
+    const seen = new Set<string>();
+    const uniqueCandidates = emailCandidates.filter(candidate => {
+      const canonical = candidate.canonical_email || canonicalizeEmail(candidate.email_address);
+      if (seen.has(canonical)) return false;
+      seen.add(canonical);
+      return true;
+    });
+
     const csvContent = [
-      ['Email Address', 'Pattern', 'Status', 'Verification Score', 'Delivery Response'],
-      ...emailCandidates.map(candidate => [
+      ['Email Address', 'Canonical Email', 'Pattern', 'Status', 'Reasons', 'Verification Score', 'Delivery Response'],
+      ...uniqueCandidates.map(candidate => [
         candidate.email_address,
+        candidate.canonical_email || canonicalizeEmail(candidate.email_address),
         candidate.email_pattern,
         candidate.verification_status,
+        (candidate.verification_result?.reasons || []).join(' '),
         candidate.verification_result?.score || '',
         candidate.delivery_response || ''
       ])
@@ -291,13 +429,23 @@ export const TestResults: React.FC<TestResultsProps> = ({ testId }) => {
     fetchTestData();
   }, [testId, user]);
 
-  // Auto-refresh when test is in progress
+  // Auto-refresh when test is in progress; a streamed verification delivers its own updates
   useEffect(() => {
-    if (test?.status === 'generating' || generationProgress.isGenerating) {
+    if (verification.running) return;
+    if (test?.status === 'generating' || test?.status === 'verifying' || generationProgress.isGenerating) {
       const interval = setInterval(fetchTestData, 3000);
       return () => clearInterval(interval);
     }
-  }, [test?.status, generationProgress.isGenerating]);
+  }, [test?.status, generationProgress.isGenerating, verification.running]);
+
+  // While candidates are verified the stream reports real progress
+  const progress: GenerationProgress = verification.running
+    ? {
+      isGenerating: true,
+      progress: verification.total > 0 ? (verification.completed / verification.total) * 100 : 0,
+      currentStep: `Verifying candidates: ${verification.completed} of ${verification.total}`,
+    }
+    : generationProgress;
 
   if (loading) {
     return (
@@ -325,12 +473,18 @@ export const TestResults: React.FC<TestResultsProps> = ({ testId }) => {
   }
 
   const deliveryConfirmed = emailCandidates.filter(c => c.verification_status === 'delivery_confirmed').length;
-  const validEmails = emailCandidates.filter(c => c.verification_status === 'valid').length;
-  const invalidEmails = emailCandidates.filter(c => c.verification_status === 'invalid').length;
-  const pendingEmails = emailCandidates.filter(c => c.verification_status === 'pending').length;
+  const deliverableEmails = emailCandidates.filter(c => c.verification_status === 'deliverable').length;
+  const undeliverableEmails = emailCandidates.filter(c => c.verification_status === 'undeliverable').length;
+  const pendingEmails = emailCandidates.filter(c => c.verification_status === 'pending' || c.verification_status === 'deferred').length;
+  const acceptAllEmails = emailCandidates.filter(c => c.verification_status === 'accept_all').length;
+  const riskyOrUnknownEmails = emailCandidates.filter(c => c.verification_status === 'risky' || c.verification_status === 'unknown').length;
   
-  const totalVerified = validEmails + invalidEmails;
-  const successRate = totalVerified > 0 ? Math.round((validEmails / totalVerified) * 100) : 0;
+  const totalVerified = deliverableEmails + undeliverableEmails + acceptAllEmails + riskyOrUnknownEmails;
+  const successRate = totalVerified > 0 ? Math.round((deliverableEmails / totalVerified) * 100) : 0;
+  // Every candidate shares the test domain, so any one suggestion applies to the whole test
+  const domainSuggestion: { domain: string } | undefined = emailCandidates
+    .map(c => c.verification_result?.details?.suggestion)
+    .find(Boolean);
 
   return (
     <div className="space-y-6">
@@ -339,23 +493,31 @@ export const TestResults: React.FC<TestResultsProps> = ({ testId }) => {
         <CardHeader>
           <CardTitle>Test Results for {test.domain}</CardTitle>
           <CardDescription>
-            Testing emails for {test.first_name} {test.last_name}
+            Testing emails for {formatTestName(test)}
             {test.company_name && ` at ${test.company_name}`}
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4 mb-6">
             <div className="text-center">
               <div className="text-2xl font-bold text-emerald-600 dark:text-emerald-400">{deliveryConfirmed}</div>
               <div className="text-sm text-muted-foreground">✉️ Delivery Confirmed</div>
             </div>
             <div className="text-center">
-              <div className="text-2xl font-bold text-primary">{validEmails}</div>
-              <div className="text-sm text-muted-foreground">Valid</div>
+              <div className="text-2xl font-bold text-primary">{deliverableEmails}</div>
+              <div className="text-sm text-muted-foreground">Deliverable</div>
+            </div>
+            <div className="text-center">
+              <div className="text-2xl font-bold text-destructive">{undeliverableEmails}</div>
+              <div className="text-sm text-muted-foreground">Undeliverable</div>
             </div>
             <div className="text-center">
-              <div className="text-2xl font-bold text-destructive">{invalidEmails}</div>
-              <div className="text-sm text-muted-foreground">Invalid</div>
+              <div className="text-2xl font-bold text-amber-600 dark:text-amber-400">{acceptAllEmails}</div>
+              <div className="text-sm text-muted-foreground">Accept-All</div>
+            </div>
+            <div className="text-center">
+              <div className="text-2xl font-bold text-orange-600 dark:text-orange-400">{riskyOrUnknownEmails}</div>
+              <div className="text-sm text-muted-foreground">Risky / Unknown</div>
             </div>
             <div className="text-center">
               <div className="text-2xl font-bold text-muted-foreground">{pendingEmails}</div>
@@ -375,13 +537,13 @@ export const TestResults: React.FC<TestResultsProps> = ({ testId }) => {
             </div>
           )}
 
-          {generationProgress.isGenerating && (
+          {progress.isGenerating && (
             <div className="mb-4">
               <div className="flex justify-between text-sm mb-2">
-                <span>{generationProgress.currentStep}</span>
-                <span>{Math.round(generationProgress.progress)}%</span>
+                <span>{progress.currentStep}</span>
+                {progress.progress !== null && <span>{Math.round(progress.progress)}%</span>}
               </div>
-              <Progress value={generationProgress.progress} className="w-full" />
+              <Progress value={progress.progress ?? 0} className="w-full" />
             </div>
           )}
 
@@ -392,10 +554,30 @@ export const TestResults: React.FC<TestResultsProps> = ({ testId }) => {
                 Export CSV
               </Button>
             )}
+            {emailCandidates.length > 0 && (test.status === 'completed' || test.status === 'failed') && (
+              <Button
+                onClick={startEmailGeneration}
+                disabled={generationProgress.isGenerating}
+                variant="outline"
+                size="sm"
+              >
+                <RefreshCw className="h-4 w-4 mr-2" />
+                Regenerate
+              </Button>
+            )}
           </div>
         </CardContent>
       </Card>
 
+      <BackgroundJobs
+        testId={test.id}
+        testStatus={test.status}
+        busy={generationProgress.isGenerating || verification.running}
+        onChanged={fetchTestData}
+      />
+
+      <TestTimeline testId={test.id} testStatus={test.status} updatedAt={test.updated_at} />
+
       <Tabs defaultValue="results" className="w-full">
         <TabsList className="grid w-full grid-cols-2">
           <TabsTrigger value="results">Email Results</TabsTrigger>
@@ -403,6 +585,17 @@ export const TestResults: React.FC<TestResultsProps> = ({ testId }) => {
         </TabsList>
 
         <TabsContent value="results" className="space-y-4">
+          {domainSuggestion && domainSuggestion.domain !== test.domain && (
+            <div className="flex flex-wrap items-center justify-between gap-3 p-4 border border-amber-200 dark:border-amber-800 rounded-lg bg-amber-50 dark:bg-amber-950">
+              <span className="text-sm text-amber-800 dark:text-amber-200">
+                Did you mean <strong>{domainSuggestion.domain}</strong>? {test.domain} looks like a typo.
+              </span>
+              <Button size="sm" onClick={() => rerunWithDomain(domainSuggestion.domain)}>
+                Re-verify with {domainSuggestion.domain}
+              </Button>
+            </div>
+          )}
+
           <Card>
             <CardHeader>
               <CardTitle>Email Verification Results</CardTitle>
@@ -434,14 +627,14 @@ export const TestResults: React.FC<TestResultsProps> = ({ testId }) => {
               </div>
             )}
 
-            {emailCandidates.length > 0 && emailCandidates.some(c => c.verification_status === 'valid') && (
+            {emailCandidates.length > 0 && emailCandidates.some(c => c.verification_status === 'deliverable') && (
               <div className="mb-6 p-4 border rounded-lg bg-primary/5 border-primary/20">
                 <h3 className="text-lg font-semibold mb-2 text-foreground">🚀 Ready for Real Delivery Test</h3>
                 <p className="text-muted-foreground mb-3">
                   Send actual test emails to confirm real deliverability (max 5 emails will be tested).
                   <br />
                   <span className="text-xs text-primary">
-                    Current Success Rate: {successRate}% • {validEmails} valid out of {totalVerified} verified
+                    Current Success Rate: {successRate}% • {deliverableEmails} deliverable out of {totalVerified} verified
                   </span>
                 </p>
                 <Button 
@@ -474,7 +667,7 @@ export const TestResults: React.FC<TestResultsProps> = ({ testId }) => {
                           🎯 {successRate}% Success Rate!
                         </div>
                         <div className="text-sm text-green-600 dark:text-green-400">
-                          Bulletproof verification bypassed all obstacles • {validEmails} valid emails found
+                          Bulletproof verification bypassed all obstacles • {deliverableEmails} deliverable emails found
                         </div>
                       </div>
                     </div>
@@ -499,15 +692,34 @@ export const TestResults: React.FC<TestResultsProps> = ({ testId }) => {
                             </TableCell>
                             <TableCell className="font-mono text-sm">
                               {candidate.email_pattern}
+                              {candidate.ranking_source === 'crawl' && (
+                                <Badge variant="outline" className="ml-2 font-sans" title="Ranked by patterns found on the domain">
+                                  Crawled
+                                </Badge>
+                              )}
+                              {candidate.ranking_source === 'user' && (
+                                <Badge variant="outline" className="ml-2 font-sans" title="From a custom pattern on this test">
+                                  Custom
+                                </Badge>
+                              )}
+                              {getNameVariantBadge(candidate.verification_result?.name_variant, test)}
                             </TableCell>
                             <TableCell>
-                              {getStatusBadge(candidate.verification_status)}
+                              {getStatusBadge(candidate.verification_status, candidate.verification_result?.reasons)}
+                              {candidate.verification_result?.reasons?.length > 0 && (
+                                <div className="mt-1 text-xs text-muted-foreground font-mono">
+                                  {candidate.verification_result.reasons.join(', ')}
+                                </div>
+                              )}
                             </TableCell>
                             <TableCell>
                               {candidate.verification_result?.score || '-'}
                             </TableCell>
                             <TableCell className="text-xs text-muted-foreground">
                               {candidate.verification_result?.details?.provider || '-'}
+                              {candidate.verification_result?.details?.providerKind === 'gateway' && (
+                                <Badge variant="outline" className="ml-1 text-[10px]">Gateway</Badge>
+                              )}
                             </TableCell>
                           </TableRow>
                         ))}
@@ -0,0 +1,148 @@
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { supabase } from '@/integrations/supabase/client';
+import { CheckCircle2, Circle, Loader2, XCircle } from "lucide-react";
+
+interface TestStep {
+  id: string;
+  step: 'crawl' | 'generate' | 'rerank' | 'verify';
+  status: 'running' | 'succeeded' | 'failed';
+  details: Record<string, unknown>;
+  error_message: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+interface TestTimelineProps {
+  testId: string;
+  testStatus: string;
+  // Changes whenever the test row is updated, so the timeline refetches alongside the results
+  updatedAt: string;
+}
+
+const STEP_LABELS: Record<TestStep['step'], string> = {
+  crawl: 'Crawl domain',
+  generate: 'Generate candidates',
+  rerank: 'Re-rank from crawled patterns',
+  verify: 'Verify candidates',
+};
+
+const STATUS_LABELS: Record<string, string> = {
+  pending: 'Pending',
+  generating: 'Generating candidates',
+  verifying: 'Verifying candidates',
+  completed: 'Completed',
+  failed: 'Failed',
+};
+
+function stepIcon(status: TestStep['status']) {
+  switch (status) {
+    case 'running':
+      return <Loader2 className="h-4 w-4 animate-spin text-primary" />;
+    case 'succeeded':
+      return <CheckCircle2 className="h-4 w-4 text-green-600 dark:text-green-400" />;
+    case 'failed':
+      return <XCircle className="h-4 w-4 text-destructive" />;
+    default:
+      return <Circle className="h-4 w-4 text-muted-foreground" />;
+  }
+}
+
+function formatDuration(step: TestStep): string | null {
+  if (!step.finished_at) return null;
+  const seconds = Math.round((new Date(step.finished_at).getTime() - new Date(step.started_at).getTime()) / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+}
+
+// The handful of counters worth showing inline; the rest of the details stay in the row
+function describeStep(step: TestStep): string | null {
+  const { details } = step;
+  switch (step.step) {
+    case 'crawl':
+      return details.emails_found !== undefined
+        ? `${details.emails_found} emails found, ${details.patterns_detected} patterns on ${details.pages_crawled} sources`
+        : null;
+    case 'generate':
+      return details.candidates_generated !== undefined
+        ? `${details.candidates_generated} candidates from ${details.patterns_detected} detected patterns` +
+          (details.added !== undefined ? ` (${details.added} new, ${details.reranked} re-ranked)` : '')
+        : null;
+    case 'rerank':
+      return details.reranked !== undefined
+        ? `${details.reranked} candidates re-ranked, ${details.added} added from ${details.patterns_detected} crawled patterns`
+        : null;
+    case 'verify':
+      return details.deliverable !== undefined
+        ? `${details.total} verified: ${details.deliverable} deliverable, ${details.undeliverable} undeliverable, ${details.deferred} deferred`
+        : details.total !== undefined ? `${details.total} addresses` : null;
+  }
+}
+
+export const TestTimeline = ({ testId, testStatus, updatedAt }: TestTimelineProps) => {
+  const [steps, setSteps] = useState<TestStep[]>([]);
+
+  const fetchSteps = async () => {
+    const { data, error } = await supabase
+      .from('test_steps')
+      .select('id, step, status, details, error_message, started_at, finished_at')
+      .eq('test_id', testId)
+      .order('started_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching test steps:', error);
+      return;
+    }
+    setSteps((data || []) as TestStep[]);
+  };
+
+  useEffect(() => {
+    fetchSteps();
+  }, [testId, testStatus, updatedAt]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Timeline
+          <Badge variant={testStatus === 'failed' ? 'destructive' : testStatus === 'completed' ? 'default' : 'secondary'}>
+            {STATUS_LABELS[testStatus] ?? testStatus}
+          </Badge>
+        </CardTitle>
+        <CardDescription>
+          Each phase this test has run, in order
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {steps.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No steps have run yet.</p>
+        ) : (
+          <ol className="space-y-3">
+            {steps.map(step => {
+              const summary = describeStep(step);
+              const duration = formatDuration(step);
+              return (
+                <li key={step.id} className="flex items-start gap-3">
+                  <div className="mt-0.5">{stepIcon(step.status)}</div>
+                  <div className="space-y-0.5 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium text-sm">{STEP_LABELS[step.step]}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {new Date(step.started_at).toLocaleString()}
+                        {duration && ` · ${duration}`}
+                      </span>
+                    </div>
+                    {summary && <p className="text-xs text-muted-foreground">{summary}</p>}
+                    {step.error_message && (
+                      <p className="text-xs text-destructive break-words">{step.error_message}</p>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,123 @@
+import { useCallback, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface StreamedVerificationResult {
+  email: string;
+  isValid: boolean;
+  status: string;
+  reasons: string[];
+  score: number;
+  [key: string]: unknown;
+}
+
+export type VerificationSummary = Record<string, number>;
+
+interface VerificationStreamState {
+  running: boolean;
+  completed: number;
+  total: number;
+  summary: VerificationSummary | null;
+  error: string | null;
+}
+
+interface StartOptions {
+  testId?: string;
+  force?: boolean;
+  onResult?: (result: StreamedVerificationResult) => void;
+}
+
+interface ServerSentEvent {
+  event: string;
+  data: string;
+}
+
+const IDLE_STATE: VerificationStreamState = {
+  running: false,
+  completed: 0,
+  total: 0,
+  summary: null,
+  error: null,
+};
+
+// Minimal text/event-stream reader: yields one event per blank-line separated block
+async function* readServerSentEvents(reader: ReadableStreamDefaultReader<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary >= 0) {
+      const block = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      let event = 'message';
+      const data: string[] = [];
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        if (line.startsWith('data:')) data.push(line.slice(5).trim());
+      }
+      if (data.length > 0) yield { event, data: data.join('\n') };
+    }
+  }
+}
+
+// Runs verify-email-advanced in streaming mode and tracks real progress as results arrive
+export function useVerificationStream() {
+  const [state, setState] = useState<VerificationStreamState>(IDLE_STATE);
+  const readerRef = useRef<ReadableStreamDefaultReader<Uint8Array> | null>(null);
+
+  const start = useCallback(async (emails: string[], { testId, force, onResult }: StartOptions = {}) => {
+    setState({ ...IDLE_STATE, running: true, total: emails.length });
+
+    try {
+      // An event-stream response comes back from invoke as the raw Response
+      const { data, error } = await supabase.functions.invoke('verify-email-advanced', {
+        body: { emails, testId, force, stream: true }
+      });
+      if (error) throw error;
+
+      const body = (data as Response | null)?.body;
+      if (!body) throw new Error('Verification stream unavailable');
+
+      const reader = body.getReader();
+      readerRef.current = reader;
+
+      let summary: VerificationSummary | null = null;
+      for await (const { event, data: payload } of readServerSentEvents(reader)) {
+        const message = JSON.parse(payload);
+
+        if (event === 'result') {
+          setState(prev => ({ ...prev, completed: prev.completed + 1 }));
+          onResult?.(message.result);
+        } else if (event === 'progress') {
+          setState(prev => ({ ...prev, completed: message.completed, total: message.total, summary: message.summary }));
+        } else if (event === 'done') {
+          summary = message.summary;
+        } else if (event === 'error') {
+          throw new Error(message.error);
+        }
+      }
+
+      setState(prev => ({ ...prev, running: false, summary: summary ?? prev.summary }));
+      return summary;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Verification stream failed';
+      setState(prev => ({ ...prev, running: false, error: message }));
+      throw error;
+    } finally {
+      readerRef.current = null;
+    }
+  }, []);
+
+  // Stops listening; results already verified server-side are still recorded
+  const cancel = useCallback(() => {
+    readerRef.current?.cancel().catch(() => {});
+  }, []);
+
+  return { ...state, start, cancel };
+}
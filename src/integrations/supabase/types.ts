@@ -83,9 +83,136 @@ export type Database = {
         }
         Relationships: []
       }
+      disposable_domains: {
+        Row: {
+          category: string
+          created_at: string
+          domain: string
+          id: string
+          source: string
+          updated_at: string
+        }
+        Insert: {
+          category?: string
+          created_at?: string
+          domain: string
+          id?: string
+          source?: string
+          updated_at?: string
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          domain?: string
+          id?: string
+          source?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      domain_auth_reports: {
+        Row: {
+          bimi: Json
+          checked_at: string
+          created_at: string
+          dmarc: Json
+          domain: string
+          error_count: number
+          findings: Json
+          id: string
+          mta_sts: Json
+          spf: Json
+          tls_rpt: Json
+          updated_at: string
+          warning_count: number
+        }
+        Insert: {
+          bimi?: Json
+          checked_at?: string
+          created_at?: string
+          dmarc?: Json
+          domain: string
+          error_count?: number
+          findings?: Json
+          id?: string
+          mta_sts?: Json
+          spf?: Json
+          tls_rpt?: Json
+          updated_at?: string
+          warning_count?: number
+        }
+        Update: {
+          bimi?: Json
+          checked_at?: string
+          created_at?: string
+          dmarc?: Json
+          domain?: string
+          error_count?: number
+          findings?: Json
+          id?: string
+          mta_sts?: Json
+          spf?: Json
+          tls_rpt?: Json
+          updated_at?: string
+          warning_count?: number
+        }
+        Relationships: []
+      }
+      domain_facts: {
+        Row: {
+          catch_all: boolean | null
+          catch_all_probe: string | null
+          checked_at: string
+          created_at: string
+          domain: string
+          expires_at: string
+          id: string
+          implicit_mx: boolean
+          mx_records: string[]
+          null_mx: boolean
+          provider: string | null
+          provider_accepts_all: boolean
+          provider_kind: string | null
+          updated_at: string
+        }
+        Insert: {
+          catch_all?: boolean | null
+          catch_all_probe?: string | null
+          checked_at?: string
+          created_at?: string
+          domain: string
+          expires_at: string
+          id?: string
+          implicit_mx?: boolean
+          mx_records?: string[]
+          null_mx?: boolean
+          provider?: string | null
+          provider_accepts_all?: boolean
+          provider_kind?: string | null
+          updated_at?: string
+        }
+        Update: {
+          catch_all?: boolean | null
+          catch_all_probe?: string | null
+          checked_at?: string
+          created_at?: string
+          domain?: string
+          expires_at?: string
+          id?: string
+          implicit_mx?: boolean
+          mx_records?: string[]
+          null_mx?: boolean
+          provider?: string | null
+          provider_accepts_all?: boolean
+          provider_kind?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       email_candidates: {
         Row: {
           bounce_count: number | null
+          canonical_email: string | null
           created_at: string
           delivery_response: string | null
           email_address: string
@@ -93,14 +220,20 @@ export type Database = {
           id: string
           last_bounce_at: string | null
           mx_records: string[] | null
+          next_retry_at: string | null
+          priority_score: number
+          ranking_source: string
+          retry_expires_at: string | null
           smtp_response: string | null
           test_id: string
           updated_at: string
+          verification_attempts: number
           verification_result: Json | null
           verification_status: string
         }
         Insert: {
           bounce_count?: number | null
+          canonical_email?: string | null
           created_at?: string
           delivery_response?: string | null
           email_address: string
@@ -108,14 +241,20 @@ export type Database = {
           id?: string
           last_bounce_at?: string | null
           mx_records?: string[] | null
+          next_retry_at?: string | null
+          priority_score?: number
+          ranking_source?: string
+          retry_expires_at?: string | null
           smtp_response?: string | null
           test_id: string
           updated_at?: string
+          verification_attempts?: number
           verification_result?: Json | null
           verification_status?: string
         }
         Update: {
           bounce_count?: number | null
+          canonical_email?: string | null
           created_at?: string
           delivery_response?: string | null
           email_address?: string
@@ -123,9 +262,14 @@ export type Database = {
           id?: string
           last_bounce_at?: string | null
           mx_records?: string[] | null
+          next_retry_at?: string | null
+          priority_score?: number
+          ranking_source?: string
+          retry_expires_at?: string | null
           smtp_response?: string | null
           test_id?: string
           updated_at?: string
+          verification_attempts?: number
           verification_result?: Json | null
           verification_status?: string
         }
@@ -175,6 +319,7 @@ export type Database = {
       email_test_results: {
         Row: {
           bounce_details: Json | null
+          canonical_email: string | null
           created_at: string
           delivered_at: string | null
           delivery_confirmed: boolean | null
@@ -187,6 +332,7 @@ export type Database = {
         }
         Insert: {
           bounce_details?: Json | null
+          canonical_email?: string | null
           created_at?: string
           delivered_at?: string | null
           delivery_confirmed?: boolean | null
@@ -199,6 +345,7 @@ export type Database = {
         }
         Update: {
           bounce_details?: Json | null
+          canonical_email?: string | null
           created_at?: string
           delivered_at?: string | null
           delivery_confirmed?: boolean | null
@@ -211,8 +358,45 @@ export type Database = {
         }
         Relationships: []
       }
+      email_verifications: {
+        Row: {
+          canonical_email: string
+          created_at: string
+          expires_at: string
+          id: string
+          result: Json
+          source: string
+          status: string
+          updated_at: string
+          verified_at: string
+        }
+        Insert: {
+          canonical_email: string
+          created_at?: string
+          expires_at: string
+          id?: string
+          result: Json
+          source: string
+          status: string
+          updated_at?: string
+          verified_at?: string
+        }
+        Update: {
+          canonical_email?: string
+          created_at?: string
+          expires_at?: string
+          id?: string
+          result?: Json
+          source?: string
+          status?: string
+          updated_at?: string
+          verified_at?: string
+        }
+        Relationships: []
+      }
       found_emails: {
         Row: {
+          canonical_email: string | null
           confidence_score: number | null
           created_at: string
           domain: string
@@ -226,6 +410,7 @@ export type Database = {
           updated_at: string
         }
         Insert: {
+          canonical_email?: string | null
           confidence_score?: number | null
           created_at?: string
           domain: string
@@ -239,6 +424,7 @@ export type Database = {
           updated_at?: string
         }
         Update: {
+          canonical_email?: string | null
           confidence_score?: number | null
           created_at?: string
           domain?: string
@@ -253,6 +439,140 @@ export type Database = {
         }
         Relationships: []
       }
+      jobs: {
+        Row: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          id: string
+          last_error: string | null
+          locked_by: string | null
+          locked_until: string | null
+          max_attempts: number
+          payload: Json
+          result: Json | null
+          run_at: string
+          status: string
+          test_id: string | null
+          type: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          locked_by?: string | null
+          locked_until?: string | null
+          max_attempts?: number
+          payload?: Json
+          result?: Json | null
+          run_at?: string
+          status?: string
+          test_id?: string | null
+          type: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          locked_by?: string | null
+          locked_until?: string | null
+          max_attempts?: number
+          payload?: Json
+          result?: Json | null
+          run_at?: string
+          status?: string
+          test_id?: string | null
+          type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "jobs_test_id_fkey"
+            columns: ["test_id"]
+            isOneToOne: false
+            referencedRelation: "tests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      mail_provider_rules: {
+        Row: {
+          accepts_all: boolean
+          created_at: string
+          domain: string | null
+          id: string
+          kind: string
+          mx_suffix: string
+          provider: string
+          updated_at: string
+        }
+        Insert: {
+          accepts_all?: boolean
+          created_at?: string
+          domain?: string | null
+          id?: string
+          kind: string
+          mx_suffix: string
+          provider: string
+          updated_at?: string
+        }
+        Update: {
+          accepts_all?: boolean
+          created_at?: string
+          domain?: string | null
+          id?: string
+          kind?: string
+          mx_suffix?: string
+          provider?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      pattern_priors: {
+        Row: {
+          computed_at: string
+          created_at: string
+          failures: number
+          id: string
+          pattern: string
+          prior: number
+          scope: string
+          scope_key: string
+          successes: number
+          updated_at: string
+        }
+        Insert: {
+          computed_at?: string
+          created_at?: string
+          failures?: number
+          id?: string
+          pattern: string
+          prior: number
+          scope: string
+          scope_key?: string
+          successes?: number
+          updated_at?: string
+        }
+        Update: {
+          computed_at?: string
+          created_at?: string
+          failures?: number
+          id?: string
+          pattern?: string
+          prior?: number
+          scope?: string
+          scope_key?: string
+          successes?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
       rate_limits: {
         Row: {
           action: string
@@ -283,14 +603,64 @@ export type Database = {
         }
         Relationships: []
       }
+      test_steps: {
+        Row: {
+          created_at: string
+          details: Json
+          error_message: string | null
+          finished_at: string | null
+          id: string
+          started_at: string
+          status: string
+          step: string
+          test_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          details?: Json
+          error_message?: string | null
+          finished_at?: string | null
+          id?: string
+          started_at?: string
+          status?: string
+          step: string
+          test_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          details?: Json
+          error_message?: string | null
+          finished_at?: string | null
+          id?: string
+          started_at?: string
+          status?: string
+          step?: string
+          test_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "test_steps_test_id_fkey"
+            columns: ["test_id"]
+            isOneToOne: false
+            referencedRelation: "tests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       tests: {
         Row: {
           company_name: string | null
           created_at: string
+          custom_patterns: string[]
           domain: string
           first_name: string
           id: string
           last_name: string
+          middle_name: string | null
+          name_order: string
           status: string
           updated_at: string
           user_id: string
@@ -298,10 +668,13 @@ export type Database = {
         Insert: {
           company_name?: string | null
           created_at?: string
+          custom_patterns?: string[]
           domain: string
           first_name: string
           id?: string
           last_name: string
+          middle_name?: string | null
+          name_order?: string
           status?: string
           updated_at?: string
           user_id: string
@@ -309,10 +682,13 @@ export type Database = {
         Update: {
           company_name?: string | null
           created_at?: string
+          custom_patterns?: string[]
           domain?: string
           first_name?: string
           id?: string
           last_name?: string
+          middle_name?: string | null
+          name_order?: string
           status?: string
           updated_at?: string
           user_id?: string
@@ -324,7 +700,26 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      claim_jobs: {
+        Args: { lease_seconds: number; max_jobs: number; worker_id: string }
+        Returns: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          id: string
+          last_error: string | null
+          locked_by: string | null
+          locked_until: string | null
+          max_attempts: number
+          payload: Json
+          result: Json | null
+          run_at: string
+          status: string
+          test_id: string | null
+          type: string
+          updated_at: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
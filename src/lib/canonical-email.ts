@@ -0,0 +1,2 @@
+// Shared with the edge functions so exports collapse addresses exactly as the database does
+export * from '../../supabase/functions/_shared/canonical-email.ts';
@@ -0,0 +1,2 @@
+// Domain list matching is shared with the edge functions so the form flags the same webmail domains
+export * from '../../supabase/functions/_shared/domain-match.ts';
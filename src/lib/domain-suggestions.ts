@@ -0,0 +1,2 @@
+// Shared with the edge functions so the form suggests the same corrections verification does
+export * from '../../supabase/functions/_shared/domain-suggestions.ts';
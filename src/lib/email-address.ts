@@ -0,0 +1,2 @@
+// The address parser lives with the edge functions so both sides validate addresses the same way
+export * from '../../supabase/functions/_shared/email-address.ts';
@@ -0,0 +1,151 @@
+import { describe, expect, it } from 'vitest';
+import {
+  orderedName,
+  parseEmailPattern,
+  parseEmailPatterns,
+  renderEmailPattern,
+  type EmailPattern,
+  type PatternErrorCode,
+  type PatternName,
+} from './email-pattern';
+
+const JOHN: PatternName = { first: 'john', last: 'doeberman' };
+
+function parse(source: string): EmailPattern {
+  const parsed = parseEmailPattern(source);
+  if (parsed.ok === false) throw new Error(`${source}: ${parsed.message}`);
+  return parsed;
+}
+
+function render(source: string, name: PatternName = JOHN): string | null {
+  return renderEmailPattern(parse(source), name);
+}
+
+describe('name placeholders', () => {
+  it('renders full parts and their initials', () => {
+    expect(render('{first}.{last}')).toBe('john.doeberman');
+    expect(render('{f}{last}')).toBe('jdoeberman');
+    expect(render('{first}{l}')).toBe('johnd');
+  });
+
+  it('stores an initial as the part with length 1', () => {
+    expect(parse('{f}').nodes).toEqual([{ type: 'name', part: 'first', length: 1 }]);
+    expect(parse('{first:1}').nodes).toEqual(parse('{f}').nodes);
+  });
+
+  it('lists every part the pattern refers to, optional ones included', () => {
+    expect(parse('{first}[.{m}].{last}').parts).toEqual(['first', 'middle', 'last']);
+    expect(parse('info').parts).toEqual([]);
+  });
+
+  it('returns null when a required part is missing', () => {
+    expect(render('{first}.{middle}.{last}')).toBeNull();
+    expect(render('{first}.{last}', { first: 'john' })).toBeNull();
+  });
+});
+
+describe('truncation', () => {
+  it('keeps at most the given number of characters', () => {
+    expect(render('{last:7}')).toBe('doeberm');
+    expect(render('{f}{last:7}')).toBe('jdoeberm');
+  });
+
+  it('leaves shorter parts untouched', () => {
+    expect(render('{first:7}')).toBe('john');
+  });
+
+  it('tolerates whitespace around the name and length', () => {
+    expect(render('{ last : 3 }')).toBe('doe');
+  });
+});
+
+describe('optional parts', () => {
+  it('renders when every part inside has a value', () => {
+    expect(render('{first}[.{m}].{last}', { ...JOHN, middle: 'quincy' })).toBe('john.q.doeberman');
+  });
+
+  it('drops the whole group, separators included, when a part is missing', () => {
+    expect(render('{first}[.{m}].{last}')).toBe('john.doeberman');
+    expect(render('{first}[_{middle}]')).toBe('john');
+  });
+});
+
+describe('literals', () => {
+  it('keeps separators and digits', () => {
+    expect(render('{first}_{last}1')).toBe('john_doeberman1');
+    expect(render('{f}-{last}')).toBe('j-doeberman');
+  });
+
+  it('lowercases letters and merges adjacent characters into one literal', () => {
+    expect(parse('Info').nodes).toEqual([{ type: 'literal', text: 'info' }]);
+  });
+
+  it('renders a fixed mailbox without any name', () => {
+    expect(render('sales', {})).toBe('sales');
+  });
+});
+
+describe('name order tokens', () => {
+  const minjun: PatternName = { first: 'minjun', last: 'kim' };
+
+  it('follows the given name first by default', () => {
+    expect(renderEmailPattern(parse('{name1}.{name2}'), orderedName(minjun, 'given_first'))).toBe('minjun.kim');
+  });
+
+  it('puts the family name first for family_first names', () => {
+    expect(renderEmailPattern(parse('{name1}.{name2}'), orderedName(minjun, 'family_first'))).toBe('kim.minjun');
+  });
+
+  it('leaves the fixed parts alone', () => {
+    const name = orderedName(minjun, 'family_first');
+    expect(renderEmailPattern(parse('{first}.{last}'), name)).toBe('minjun.kim');
+    expect(renderEmailPattern(parse('{name1:1}{name2}'), name)).toBe('kminjun');
+  });
+});
+
+describe('parse errors', () => {
+  const cases: [string, PatternErrorCode, number][] = [
+    ['', 'empty', 0],
+    ['   ', 'empty', 0],
+    [`{first}${'x'.repeat(64)}`, 'too_long', 64],
+    ['{first}+{last}', 'invalid_char', 7],
+    ['{first', 'unclosed_placeholder', 0],
+    ['{fir[st}', 'unclosed_placeholder', 0],
+    ['first}', 'unexpected_brace', 5],
+    ['{}.{last}', 'empty_placeholder', 0],
+    ['{first}.{surname}', 'unknown_placeholder', 8],
+    ['{last:0}', 'invalid_length', 0],
+    ['{last:x}', 'invalid_length', 0],
+    ['{last:65}', 'invalid_length', 0],
+    ['{f:2}', 'length_on_initial', 0],
+    ['{first}[.{m}', 'unclosed_optional', 7],
+    ['{first}].{last}', 'unexpected_bracket', 7],
+    ['{first}[[.{m}]]', 'nested_optional', 8],
+    ['{first}[.x]', 'optional_without_name', 7],
+  ];
+
+  it.each(cases)('%j fails with %s at %i', (source, code, position) => {
+    const parsed = parseEmailPattern(source);
+    expect(parsed.ok).toBe(false);
+    if (parsed.ok === false) {
+      expect(parsed.code).toBe(code);
+      expect(parsed.position).toBe(position);
+      expect(parsed.message).not.toBe('');
+    }
+  });
+
+  it('covers every error code', () => {
+    const codes = new Set(cases.map(([, code]) => code));
+    expect(codes.size).toBe(13);
+  });
+});
+
+describe('parseEmailPatterns', () => {
+  it('keeps the valid patterns and reports the rest with their source', () => {
+    const { patterns, errors } = parseEmailPatterns(['{f}{last}', '{nope}', 'info']);
+    expect(patterns.map(pattern => pattern.source)).toEqual(['{f}{last}', 'info']);
+    expect(errors).toEqual([
+      expect.objectContaining({ source: '{nope}', code: 'unknown_placeholder', position: 0 }),
+    ]);
+  });
+});
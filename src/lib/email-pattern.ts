@@ -0,0 +1,2 @@
+// Shared with the edge functions so the form accepts exactly the custom patterns generation can render
+export * from '../../supabase/functions/_shared/email-pattern.ts';
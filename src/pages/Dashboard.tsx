@@ -53,7 +53,7 @@ export const Dashboard: React.FC = () => {
       if (candidatesError) throw candidatesError;
 
       const totalEmails = candidates?.length || 0;
-      const validEmails = candidates?.filter(c => c.verification_status === 'valid').length || 0;
+      const validEmails = candidates?.filter(c => c.verification_status === 'deliverable').length || 0;
       const deliveryConfirmed = candidates?.filter(c => c.verification_status === 'delivery_confirmed').length || 0;
       const successRateCalc = totalEmails > 0 ? Math.round((validEmails / totalEmails) * 100) : 0;
       const realDeliveryRate = validEmails > 0 ? Math.round((deliveryConfirmed / validEmails) * 100) : 0;
@@ -201,7 +201,7 @@ export const Dashboard: React.FC = () => {
 
           {activeTab === 'results' && (
             currentTestId ? (
-              <TestResults testId={currentTestId} />
+              <TestResults testId={currentTestId} onTestCreated={handleTestCreated} />
             ) : (
               <Card>
                 <CardHeader>
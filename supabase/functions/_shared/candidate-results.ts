@@ -0,0 +1,50 @@
+// Writes verification outcomes back to a test's email_candidates rows and settles the test once
+// every candidate has a verdict.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { candidateVerificationUpdate, type VerificationOutcome } from './verification-status.ts';
+import { transitionTest } from './test-lifecycle.ts';
+
+// Returns the status the candidate was stored with
+export async function recordCandidateResult(
+  supabase: SupabaseClient,
+  testId: string,
+  result: VerificationOutcome & { email: string }
+): Promise<string> {
+  // The stored state decides whether a delivery outcome is kept and how many deferrals have passed
+  const { data: previous, error: loadError } = await supabase
+    .from('email_candidates')
+    .select('verification_status, verification_result, verification_attempts, retry_expires_at')
+    .eq('email_address', result.email)
+    .eq('test_id', testId)
+    .maybeSingle();
+
+  if (loadError) {
+    console.error(`Error loading candidate ${result.email}:`, loadError);
+  }
+
+  const update = candidateVerificationUpdate(result, previous ?? {});
+
+  const { error } = await supabase
+    .from('email_candidates')
+    .update(update)
+    .eq('email_address', result.email)
+    .eq('test_id', testId);
+
+  if (error) {
+    console.error(`Error updating candidate ${result.email}:`, error);
+  }
+  return update.verification_status;
+}
+
+export async function completeTestVerification(supabase: SupabaseClient, testId: string, storedStatuses: string[]) {
+  const deferred = storedStatuses.filter(status => status === 'deferred').length;
+  if (deferred > 0) {
+    // retry-deferred-verifications completes the test once the deferrals resolve or expire
+    console.log(`${deferred} candidates deferred by their mail servers, test ${testId} stays in verifying`);
+    return;
+  }
+
+  if (await transitionTest(supabase, testId, 'completed')) {
+    console.log('Verification completed for test:', testId);
+  }
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { canonicalizeEmail } from './canonical-email.ts';
+
+describe('canonicalizeEmail', () => {
+  it('drops dots and the sub-address tag on Gmail and folds googlemail.com into gmail.com', () => {
+    expect(canonicalizeEmail('John.Doe+News@GoogleMail.com')).toBe('johndoe@gmail.com');
+  });
+
+  it('drops the sub-address tag on other providers that support it', () => {
+    expect(canonicalizeEmail('john.doe+news@outlook.com')).toBe('john.doe@outlook.com');
+    expect(canonicalizeEmail('john+news@icloud.com')).toBe('john@icloud.com');
+  });
+
+  it('keeps the tag on providers without sub-addressing', () => {
+    expect(canonicalizeEmail('john+news@yahoo.com')).toBe('john+news@yahoo.com');
+  });
+
+  it('keeps the tag on domains whose mail server is unknown', () => {
+    expect(canonicalizeEmail('John.Doe+Sales@Acme.com')).toBe('john.doe+sales@acme.com');
+  });
+
+  it('only folds the case of a quoted local part', () => {
+    expect(canonicalizeEmail('"John+Doe"@gmail.com')).toBe('"john+doe"@gmail.com');
+  });
+});
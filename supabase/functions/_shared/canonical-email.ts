@@ -0,0 +1,19 @@
+// One spelling per mailbox, used to match the same address across email_candidates, found_emails
+// and email_test_results (bounces, caching, exports). The domain is folded to lower-case ASCII
+// (IDN to punycode) and the local part is lower-cased with provider rules applied: Gmail ignores
+// dots, and sub-address tags (john+news) are dropped only on providers known to support them
+// (Gmail, Outlook.com, iCloud; see local-part-rules.ts).
+import { parseEmailAddress } from './email-address.ts';
+import { checkLocalPart } from './local-part-rules.ts';
+
+export function canonicalizeEmail(address: string): string {
+  const parsed = parseEmailAddress(address);
+  if (parsed.ok === false) {
+    return address.trim().toLowerCase();
+  }
+  // A quoted local part is opaque; only its case is folded
+  if (parsed.quoted || parsed.ipLiteral) {
+    return `${parsed.localPart.toLowerCase()}@${parsed.domain.toLowerCase()}`;
+  }
+  return checkLocalPart(parsed.localPart, parsed.domain).canonical;
+}
@@ -0,0 +1,137 @@
+// Domain phase of verification: the facts that are the same for every address on a domain
+// (mail hosts, provider, catch-all behaviour). Computed once per domain per request and persisted in
+// domain_facts so later requests can reuse them until they expire.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { resolver } from './resolver.ts';
+import { probeCatchAll } from './smtp.ts';
+import { fingerprintProvider, loadProviderRules, type MailProvider, type MailProviderKind, type MailProviderRule } from './mail-providers.ts';
+
+export interface DomainFacts {
+  domain: string;
+  mxRecords: string[]; // sorted by preference
+  implicitMx: boolean;
+  nullMx: boolean;
+  provider?: MailProvider;
+  dnsError?: string;
+  catchAll: boolean | null; // null when the probe was inconclusive or not run
+  catchAllProbe?: string;
+  checkedAt: string;
+  source: 'computed' | 'stored';
+}
+
+const FACTS_TTL_MS = 6 * 60 * 60 * 1000;
+// Inconclusive catch-all probes (greylisting, timeouts) are worth repeating sooner
+const INCONCLUSIVE_TTL_MS = 15 * 60 * 1000;
+
+async function computeDomainFacts(domain: string, rules: MailProviderRule[]): Promise<DomainFacts> {
+  const facts: DomainFacts = {
+    domain,
+    mxRecords: [],
+    implicitMx: false,
+    nullMx: false,
+    catchAll: null,
+    checkedAt: new Date().toISOString(),
+    source: 'computed',
+  };
+
+  try {
+    const lookup = await resolver.lookupMailHosts(domain);
+    facts.mxRecords = lookup.hosts.map(host => host.exchange);
+    facts.implicitMx = lookup.implicit;
+    facts.nullMx = lookup.nullMx;
+    facts.provider = fingerprintProvider(domain, facts.mxRecords, rules);
+  } catch (error) {
+    console.error(`Error resolving mail hosts for ${domain}:`, error);
+    facts.dnsError = (error as Error).message;
+    return facts;
+  }
+
+  if (facts.mxRecords.length > 0) {
+    const probe = await probeCatchAll(domain, facts.mxRecords);
+    facts.catchAll = probe.catchAll;
+    facts.catchAllProbe = probe.response;
+  }
+
+  console.log(`Domain facts for ${domain}: ${facts.mxRecords.length} mail hosts, provider ${facts.provider?.name ?? 'none'}, catch-all ${facts.catchAll}`);
+  return facts;
+}
+
+async function loadStoredFacts(supabase: SupabaseClient, domain: string): Promise<DomainFacts | null> {
+  const { data, error } = await supabase
+    .from('domain_facts')
+    .select('*')
+    .eq('domain', domain)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Error loading domain facts for ${domain}:`, error);
+    return null;
+  }
+  if (!data) return null;
+
+  return {
+    domain,
+    mxRecords: data.mx_records ?? [],
+    implicitMx: data.implicit_mx,
+    nullMx: data.null_mx,
+    provider: data.provider
+      ? { name: data.provider, kind: data.provider_kind as MailProviderKind, acceptsAll: data.provider_accepts_all }
+      : undefined,
+    catchAll: data.catch_all,
+    catchAllProbe: data.catch_all_probe ?? undefined,
+    checkedAt: data.checked_at,
+    source: 'stored',
+  };
+}
+
+async function storeFacts(supabase: SupabaseClient, facts: DomainFacts) {
+  const ttl = facts.mxRecords.length > 0 && facts.catchAll === null ? INCONCLUSIVE_TTL_MS : FACTS_TTL_MS;
+
+  const { error } = await supabase.from('domain_facts').upsert({
+    domain: facts.domain,
+    mx_records: facts.mxRecords,
+    implicit_mx: facts.implicitMx,
+    null_mx: facts.nullMx,
+    provider: facts.provider?.name ?? null,
+    provider_kind: facts.provider?.kind ?? null,
+    provider_accepts_all: facts.provider?.acceptsAll ?? false,
+    catch_all: facts.catchAll,
+    catch_all_probe: facts.catchAllProbe ?? null,
+    checked_at: facts.checkedAt,
+    expires_at: new Date(Date.now() + ttl).toISOString(),
+  }, {
+    onConflict: 'domain'
+  });
+
+  if (error) {
+    console.error(`Error storing domain facts for ${facts.domain}:`, error);
+  }
+}
+
+// Returns a per-request loader; concurrent callers for the same domain share one promise
+export function createDomainFactsLoader(supabase: SupabaseClient) {
+  const memo = new Map<string, Promise<DomainFacts>>();
+
+  const load = async (domain: string): Promise<DomainFacts> => {
+    const stored = await loadStoredFacts(supabase, domain);
+    if (stored) return stored;
+
+    const facts = await computeDomainFacts(domain, await loadProviderRules(supabase));
+    // A failed DNS lookup is not a fact about the domain
+    if (!facts.dnsError) {
+      await storeFacts(supabase, facts);
+    }
+    return facts;
+  };
+
+  return (rawDomain: string): Promise<DomainFacts> => {
+    const domain = rawDomain.trim().toLowerCase();
+    let facts = memo.get(domain);
+    if (!facts) {
+      facts = load(domain);
+      memo.set(domain, facts);
+    }
+    return facts;
+  };
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { flagAddress, type DomainLists } from './domain-lists.ts';
+
+const lists: DomainLists = {
+  disposable: new Set(['mailinator.com']),
+  freeWebmail: new Set(['gmail.com']),
+  roleAccounts: new Set(['billing', 'info']),
+};
+
+describe('flagAddress', () => {
+  it('flags role accounts from the loaded list rather than the bundled one', () => {
+    expect(flagAddress(lists, 'Billing', 'acme.com').roleAccount).toBe(true);
+    // In the bundled list, but not in the imported one
+    expect(flagAddress(lists, 'sales', 'acme.com').roleAccount).toBe(false);
+  });
+
+  it('matches list domains exactly or as a parent domain', () => {
+    expect(flagAddress(lists, 'john', 'mx.mailinator.com').disposable).toBe(true);
+    expect(flagAddress(lists, 'john', 'notmailinator.com').disposable).toBe(false);
+    expect(flagAddress(lists, 'john', 'gmail.com').freeWebmail).toBe(true);
+  });
+});
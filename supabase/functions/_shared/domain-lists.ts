@@ -0,0 +1,102 @@
+// Reference lists used to flag addresses: disposable providers, free webmail domains and role-account
+// local parts from the disposable_domains table (seeded from the bundled lists), plus machine-generated
+// local parts. Domains match exactly or as a registrable suffix (see domain-match.ts); role accounts
+// match the whole local part.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { DISPOSABLE_DOMAINS } from './lists/disposable-domains.ts';
+import { FREE_WEBMAIL_DOMAINS } from './lists/free-webmail-domains.ts';
+import { isRoleAccount, ROLE_ACCOUNT_LOCAL_PARTS } from './role-accounts.ts';
+import { detectGibberish } from './gibberish.ts';
+import { matchesDomainList } from './domain-match.ts';
+
+export { matchesDomainList, normalizeListDomain } from './domain-match.ts';
+
+// 'role_account' rows hold a local part (info, sales) in the domain column
+export type DomainListCategory = 'disposable' | 'free_webmail' | 'role_account';
+
+export const BUNDLED_DOMAIN_LISTS: Record<DomainListCategory, string[]> = {
+  disposable: DISPOSABLE_DOMAINS,
+  free_webmail: FREE_WEBMAIL_DOMAINS,
+  role_account: ROLE_ACCOUNT_LOCAL_PARTS,
+};
+
+export interface DomainLists {
+  disposable: Set<string>;
+  freeWebmail: Set<string>;
+  roleAccounts: Set<string>;
+}
+
+export interface AddressFlags {
+  disposable: boolean;
+  freeWebmail: boolean;
+  roleAccount: boolean;
+  gibberish: boolean;
+}
+
+// How long an isolate keeps the table contents before reloading them
+const LISTS_TTL_MS = 10 * 60 * 1000;
+const PAGE_SIZE = 1000;
+
+let cached: { expiresAt: number; lists: Promise<DomainLists> } | null = null;
+
+function bundledLists(): DomainLists {
+  return {
+    disposable: new Set(DISPOSABLE_DOMAINS),
+    freeWebmail: new Set(FREE_WEBMAIL_DOMAINS),
+    roleAccounts: new Set(ROLE_ACCOUNT_LOCAL_PARTS),
+  };
+}
+
+async function fetchLists(supabase: SupabaseClient): Promise<DomainLists> {
+  const lists: DomainLists = { disposable: new Set(), freeWebmail: new Set(), roleAccounts: new Set() };
+
+  // PostgREST caps each response, so page through the table
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('disposable_domains')
+      .select('domain, category')
+      .order('domain')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+
+    for (const row of data ?? []) {
+      if (row.category === 'disposable') lists.disposable.add(row.domain);
+      if (row.category === 'free_webmail') lists.freeWebmail.add(row.domain);
+      if (row.category === 'role_account') lists.roleAccounts.add(row.domain);
+    }
+
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  // An empty table means the lists have not been imported yet
+  if (lists.disposable.size === 0) DISPOSABLE_DOMAINS.forEach(domain => lists.disposable.add(domain));
+  if (lists.freeWebmail.size === 0) FREE_WEBMAIL_DOMAINS.forEach(domain => lists.freeWebmail.add(domain));
+  if (lists.roleAccounts.size === 0) ROLE_ACCOUNT_LOCAL_PARTS.forEach(localPart => lists.roleAccounts.add(localPart));
+
+  return lists;
+}
+
+// Lists are shared per isolate; if the table cannot be read the bundled lists are used instead
+export function loadDomainLists(supabase: SupabaseClient): Promise<DomainLists> {
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.lists;
+  }
+
+  const lists = fetchLists(supabase).catch(error => {
+    console.error('Error loading domain lists, using bundled lists:', error);
+    cached = null;
+    return bundledLists();
+  });
+  cached = { expiresAt: Date.now() + LISTS_TTL_MS, lists };
+  return lists;
+}
+
+export function flagAddress(lists: DomainLists, localPart: string, domain: string): AddressFlags {
+  return {
+    disposable: matchesDomainList(lists.disposable, domain),
+    freeWebmail: matchesDomainList(lists.freeWebmail, domain),
+    roleAccount: isRoleAccount(lists.roleAccounts, localPart),
+    gibberish: detectGibberish(localPart).gibberish,
+  };
+}
@@ -0,0 +1,23 @@
+// Dependency-free domain matching shared by the edge functions and the browser. Domains match exactly
+// or as a registrable suffix, so mx.mailinator.com matches mailinator.com but notmailinator.com does not.
+import { FREE_WEBMAIL_DOMAINS } from './lists/free-webmail-domains.ts';
+
+export function normalizeListDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/^@/, '').replace(/\.$/, '');
+}
+
+// Exact match on the domain or on any parent domain with at least two labels
+export function matchesDomainList(list: Set<string>, rawDomain: string): boolean {
+  const labels = normalizeListDomain(rawDomain).split('.');
+  for (let i = 0; i <= labels.length - 2; i++) {
+    if (list.has(labels.slice(i).join('.'))) return true;
+  }
+  return false;
+}
+
+const BUNDLED_FREE_WEBMAIL = new Set(FREE_WEBMAIL_DOMAINS);
+
+// Bundled list only; the edge functions use loadDomainLists for the maintained table
+export function isFreeWebmailDomain(domain: string): boolean {
+  return matchesDomainList(BUNDLED_FREE_WEBMAIL, domain);
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { PROVIDER_DOMAINS, suggestDomain, typoDistance } from './domain-suggestions.ts';
+
+const KNOWN = [...PROVIDER_DOMAINS, 'acme.co.uk', 'initech.com'];
+
+describe('typoDistance', () => {
+  it('charges less for a neighbouring key than for any other substitution', () => {
+    expect(typoDistance('gmail', 'gmaik')).toBe(0.5);
+    expect(typoDistance('gmail', 'gmaiz')).toBe(1);
+  });
+
+  it('counts a transposition as one edit', () => {
+    expect(typoDistance('gmial', 'gmail')).toBe(1);
+  });
+});
+
+describe('suggestDomain', () => {
+  it.each([
+    ['gmial.com', 'gmail.com'],
+    ['hotmial.com', 'hotmail.com'],
+    ['yaho.com', 'yahoo.com'],
+    ['gmail.con', 'gmail.com'],
+    ['gmial.cmo', 'gmail.com'],
+    ['acme.co.uj', 'acme.co.uk'],
+    ['initeck.com', 'initech.com'],
+  ])('suggests a correction for %s', (domain, expected) => {
+    expect(suggestDomain(domain, KNOWN)?.domain).toBe(expected);
+  });
+
+  it.each(['ibm.com', 'att.com', 'sap.com', 'axa.com', 'aon.com', 'ge.com', 'gm.com', 'gap.com'])(
+    'leaves the short real domain %s alone',
+    domain => {
+      expect(suggestDomain(domain, KNOWN)).toBeUndefined();
+    }
+  );
+
+  it('leaves known domains alone', () => {
+    expect(suggestDomain('Gmail.com ', KNOWN)).toBeUndefined();
+  });
+
+  it('does not match a subdomain against a bare domain', () => {
+    expect(suggestDomain('mail.gmial.com', KNOWN)).toBeUndefined();
+  });
+
+  it('falls back to fixing an unknown TLD', () => {
+    expect(suggestDomain('example.con', KNOWN)).toEqual({ domain: 'example.com', distance: 0.5, source: 'tld' });
+  });
+});
@@ -0,0 +1,140 @@
+// "Did you mean" suggestions for mistyped domains (gmial.com, acme.con). Closeness is an edit
+// distance where slips onto a neighbouring key cost less than other substitutions, measured on the
+// registrable label (gmial vs gmail) and the suffix separately. Dependency-free so the browser can
+// run it too; the edge functions add the domains we have seen before (see known-domains.ts).
+import { FREE_WEBMAIL_DOMAINS } from './lists/free-webmail-domains.ts';
+import { publicSuffixLength } from './public-suffix.ts';
+
+export interface DomainSuggestion {
+  domain: string;
+  distance: number;
+  source: 'known_domain' | 'tld';
+}
+
+// TLDs that are common enough that an unknown TLD close to one of them is probably a typo
+const COMMON_TLDS = [
+  'com', 'net', 'org', 'io', 'co', 'ai', 'app', 'dev', 'biz', 'info', 'edu', 'gov',
+  'us', 'uk', 'ca', 'au', 'de', 'fr', 'nl', 'es', 'it', 'ch', 'se', 'no', 'dk', 'fi',
+  'be', 'at', 'ie', 'pl', 'pt', 'br', 'in', 'jp', 'nz', 'za', 'eu',
+];
+
+// Tried first, so a typo equally close to two providers resolves to the more likely one
+const POPULAR_PROVIDERS = [
+  'gmail.com', 'yahoo.com', 'hotmail.com', 'outlook.com', 'icloud.com', 'aol.com',
+  'live.com', 'msn.com', 'me.com', 'protonmail.com', 'googlemail.com', 'ymail.com',
+];
+
+// Mail providers in preference order, the known domains when nothing else is available
+export const PROVIDER_DOMAINS: readonly string[] = [...new Set([...POPULAR_PROVIDERS, ...FREE_WEBMAIL_DOMAINS])];
+
+const QWERTY_ROWS = ['1234567890-', 'qwertyuiop', 'asdfghjkl', 'zxcvbnm'];
+
+// Keys touching each key on a QWERTY layout, including diagonals
+const ADJACENT_KEYS: Record<string, Set<string>> = (() => {
+  const adjacent: Record<string, Set<string>> = {};
+  QWERTY_ROWS.forEach((row, rowIndex) => {
+    [...row].forEach((key, column) => {
+      const neighbours = new Set<string>();
+      for (const [dr, dc] of [[0, -1], [0, 1], [-1, 0], [-1, 1], [1, -1], [1, 0]]) {
+        const neighbour = QWERTY_ROWS[rowIndex + dr]?.[column + dc];
+        if (neighbour) neighbours.add(neighbour);
+      }
+      adjacent[key] = neighbours;
+    });
+  });
+  return adjacent;
+})();
+
+const ADJACENT_SUBSTITUTION_COST = 0.5;
+
+function substitutionCost(a: string, b: string): number {
+  if (a === b) return 0;
+  return ADJACENT_KEYS[a]?.has(b) ? ADJACENT_SUBSTITUTION_COST : 1;
+}
+
+// Optimal string alignment distance (Damerau-Levenshtein without repeated edits of one substring)
+export function typoDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) => Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0)));
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      d[i][j] = Math.min(
+        d[i - 1][j] + 1,
+        d[i][j - 1] + 1,
+        d[i - 1][j - 1] + substitutionCost(a[i - 1], b[j - 1])
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[rows - 1][cols - 1];
+}
+
+interface DomainParts {
+  subdomains: string; // everything left of the registrable label, '' if none
+  label: string; // the registrable label: 'gmail' in mail.gmail.com
+  suffix: string; // 'com', 'co.uk'
+}
+
+function splitDomain(domain: string): DomainParts {
+  const labels = domain.split('.');
+  const suffixStart = labels.length - publicSuffixLength(domain);
+  return {
+    subdomains: labels.slice(0, Math.max(suffixStart - 1, 0)).join('.'),
+    label: labels[suffixStart - 1] ?? '',
+    suffix: labels.slice(suffixStart).join('.'),
+  };
+}
+
+// Edits allowed in the registrable label. Short labels allow none: ibm, att and ge are a single edit
+// or two from aim, aol and me, and are real domains far more often than typos of them.
+function maxLabelDistance(label: string): number {
+  if (label.length <= 3) return 0;
+  return label.length <= 6 ? 1 : 2;
+}
+
+const MAX_SUFFIX_DISTANCE = 1;
+
+// Known domains should be ordered by preference (popular providers first); ties keep that order.
+// Only suggests; whether the entered domain actually receives mail is for the caller to check.
+export function suggestDomain(rawDomain: string, knownDomains: readonly string[]): DomainSuggestion | undefined {
+  const domain = rawDomain.trim().toLowerCase();
+  if (!domain.includes('.') || knownDomains.includes(domain)) return undefined;
+
+  const entered = splitDomain(domain);
+  const labelLimit = maxLabelDistance(entered.label);
+  let best: DomainSuggestion | undefined;
+  for (const candidate of knownDomains) {
+    const known = splitDomain(candidate);
+    if (known.subdomains !== entered.subdomains) continue;
+    if (Math.abs(known.label.length - entered.label.length) > labelLimit) continue;
+
+    const labelDistance = typoDistance(entered.label, known.label);
+    const suffixDistance = typoDistance(entered.suffix, known.suffix);
+    if (labelDistance > labelLimit || suffixDistance > MAX_SUFFIX_DISTANCE) continue;
+
+    const distance = labelDistance + suffixDistance;
+    if (distance > 0 && (!best || distance < best.distance)) {
+      best = { domain: candidate, distance, source: 'known_domain' };
+    }
+  }
+  if (best) return best;
+
+  // Otherwise try fixing just the TLD (acme.con -> acme.com)
+  const dot = domain.lastIndexOf('.');
+  const name = domain.slice(0, dot);
+  const tld = domain.slice(dot + 1);
+  if (COMMON_TLDS.includes(tld)) return undefined;
+
+  for (const candidate of COMMON_TLDS) {
+    const distance = typoDistance(tld, candidate);
+    if (distance <= 1 && (!best || distance < best.distance)) {
+      best = { domain: `${name}.${candidate}`, distance, source: 'tld' };
+    }
+  }
+  return best;
+}
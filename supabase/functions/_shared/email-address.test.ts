@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { parseEmailAddress } from './email-address.ts';
+
+describe('quoted local parts', () => {
+  it('accepts a quoted local part with spaces and an escaped quote', () => {
+    const parsed = parseEmailAddress('"john \\"jd\\" doe"@example.com');
+    expect(parsed).toMatchObject({ ok: true, localPart: '"john \\"jd\\" doe"', quoted: true, domain: 'example.com' });
+  });
+
+  it('accepts an escaped backslash right before the closing quote', () => {
+    expect(parseEmailAddress('"john\\\\"@example.com')).toMatchObject({ ok: true, localPart: '"john\\\\"' });
+  });
+
+  it('does not let an escaped quote close the string', () => {
+    expect(parseEmailAddress('"\\"@example.com')).toMatchObject({ ok: false, code: 'quoted_string_unterminated' });
+  });
+
+  it('rejects a trailing backslash with nothing to escape', () => {
+    expect(parseEmailAddress('"john\\')).toMatchObject({ ok: false, code: 'quoted_string_unterminated' });
+  });
+
+  it('checks the escaped character against %d32-126', () => {
+    expect(parseEmailAddress('"john\\\tdoe"@example.com')).toMatchObject({ ok: false, code: 'quoted_string_invalid_char' });
+    expect(parseEmailAddress('"john\\édoe"@example.com')).toMatchObject({ ok: false, code: 'quoted_string_invalid_char' });
+  });
+
+  it('checks the characters after an escaped quote', () => {
+    expect(parseEmailAddress('"a\\"b\u0001"@example.com')).toMatchObject({ ok: false, code: 'quoted_string_invalid_char' });
+  });
+
+  it('rejects quoted local parts when they are not allowed', () => {
+    expect(parseEmailAddress('"john"@example.com', { allowQuoted: false })).toMatchObject({ ok: false, code: 'quoted_not_allowed' });
+  });
+});
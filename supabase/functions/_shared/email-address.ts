@@ -0,0 +1,329 @@
+// Email address parser shared by the edge functions and the browser (re-exported from src/lib).
+// Follows the SMTP envelope grammar of RFC 5321 section 4.1.2 with the RFC 6531 (SMTPUTF8)
+// extensions: dot-atom or quoted local parts, hostname or IP-literal domains, IDN domains in
+// either Unicode or punycode form. Failures carry a machine-readable code instead of a boolean.
+// No runtime dependencies, so it runs unchanged under Deno and in the browser.
+
+export type AddressErrorCode =
+  | 'empty'
+  | 'address_too_long'
+  | 'missing_at'
+  | 'multiple_at'
+  | 'local_part_empty'
+  | 'local_part_too_long'
+  | 'local_part_invalid_char'
+  | 'local_part_dot_position'
+  | 'local_part_consecutive_dots'
+  | 'quoted_string_unterminated'
+  | 'quoted_string_invalid_char'
+  | 'quoted_not_allowed'
+  | 'utf8_not_allowed'
+  | 'domain_empty'
+  | 'domain_too_long'
+  | 'domain_label_empty'
+  | 'domain_label_too_long'
+  | 'domain_label_hyphen'
+  | 'domain_invalid_char'
+  | 'domain_single_label'
+  | 'domain_numeric_tld'
+  | 'punycode_invalid'
+  | 'ip_literal_invalid'
+  | 'ip_literal_not_allowed';
+
+const ERROR_MESSAGES: Record<AddressErrorCode, string> = {
+  empty: 'Email address is empty',
+  address_too_long: 'Email address is longer than 254 characters',
+  missing_at: 'Email address is missing an "@"',
+  multiple_at: 'Email address has more than one "@" outside quotes',
+  local_part_empty: 'Nothing before the "@"',
+  local_part_too_long: 'The part before the "@" is longer than 64 characters',
+  local_part_invalid_char: 'The part before the "@" contains a character that is not allowed',
+  local_part_dot_position: 'The part before the "@" cannot start or end with a dot',
+  local_part_consecutive_dots: 'The part before the "@" cannot contain two dots in a row',
+  quoted_string_unterminated: 'Quoted local part is missing its closing quote',
+  quoted_string_invalid_char: 'Quoted local part contains a character that is not allowed',
+  quoted_not_allowed: 'Quoted local parts are not accepted here',
+  utf8_not_allowed: 'Non-ASCII characters before the "@" are not accepted here',
+  domain_empty: 'Nothing after the "@"',
+  domain_too_long: 'Domain is longer than 253 characters',
+  domain_label_empty: 'Domain has an empty label (two dots in a row, or a leading/trailing dot)',
+  domain_label_too_long: 'A domain label is longer than 63 characters',
+  domain_label_hyphen: 'A domain label cannot start or end with a hyphen',
+  domain_invalid_char: 'Domain contains a character that is not allowed',
+  domain_single_label: 'Domain needs at least one dot (e.g. example.com)',
+  domain_numeric_tld: 'Top-level domain cannot be all digits',
+  punycode_invalid: 'Domain contains an invalid punycode (xn--) label',
+  ip_literal_invalid: 'Address literal is not a valid IPv4 or IPv6 address',
+  ip_literal_not_allowed: 'Address literals ([1.2.3.4]) are not accepted here',
+};
+
+export interface ParsedDomain {
+  domain: string; // lowercase ASCII (punycode) form, or the literal with its brackets
+  unicodeDomain: string; // display form with xn-- labels decoded
+  ipLiteral: boolean;
+}
+
+export interface ParsedAddress extends ParsedDomain {
+  address: string; // local part as written, ASCII domain
+  localPart: string; // as written, including quotes if quoted
+  quoted: boolean;
+  smtpUtf8: boolean; // the local part needs the SMTPUTF8 extension
+}
+
+export interface AddressError {
+  code: AddressErrorCode;
+  message: string;
+}
+
+// Compare ok with === false to narrow: the browser build type-checks without strictNullChecks
+export type ParseResult<T> = ({ ok: true } & T) | ({ ok: false } & AddressError);
+
+export interface AddressParseOptions {
+  allowQuoted?: boolean;
+  allowIpLiteral?: boolean;
+  allowSmtpUtf8?: boolean;
+  requireTld?: boolean; // reject single-label domains such as "localhost"
+}
+
+const DEFAULT_OPTIONS: Required<AddressParseOptions> = {
+  allowQuoted: true,
+  allowIpLiteral: true,
+  allowSmtpUtf8: true,
+  requireTld: true,
+};
+
+const MAX_ADDRESS_LENGTH = 254;
+const MAX_LOCAL_PART_LENGTH = 64;
+const MAX_DOMAIN_LENGTH = 253;
+const MAX_LABEL_LENGTH = 63;
+
+// RFC 5322 atext
+const ATEXT = /^[A-Za-z0-9!#$%&'*+\-/=?^_`{|}~]$/;
+
+export function describeAddressError(code: AddressErrorCode): string {
+  return ERROR_MESSAGES[code];
+}
+
+function fail<T>(code: AddressErrorCode): ParseResult<T> {
+  return { ok: false, code, message: ERROR_MESSAGES[code] };
+}
+
+function utf8Length(value: string): number {
+  return new TextEncoder().encode(value).length;
+}
+
+function isNonAscii(char: string): boolean {
+  return char.codePointAt(0)! > 0x7f;
+}
+
+// Punycode decoder (RFC 3492), used to validate xn-- labels and to show IDNs in Unicode
+const BASE = 36, TMIN = 1, TMAX = 26, SKEW = 38, DAMP = 700, INITIAL_BIAS = 72, INITIAL_N = 128;
+
+function adapt(delta: number, numPoints: number, firstTime: boolean): number {
+  delta = firstTime ? Math.floor(delta / DAMP) : delta >> 1;
+  delta += Math.floor(delta / numPoints);
+  let k = 0;
+  while (delta > ((BASE - TMIN) * TMAX) >> 1) {
+    delta = Math.floor(delta / (BASE - TMIN));
+    k += BASE;
+  }
+  return k + Math.floor(((BASE - TMIN + 1) * delta) / (delta + SKEW));
+}
+
+export function decodePunycode(input: string): string | null {
+  const output: number[] = [];
+  const basicEnd = input.lastIndexOf('-');
+  for (let j = 0; j < Math.max(basicEnd, 0); j++) {
+    if (input.charCodeAt(j) >= 0x80) return null;
+    output.push(input.charCodeAt(j));
+  }
+
+  let n = INITIAL_N, bias = INITIAL_BIAS, i = 0;
+  for (let index = basicEnd > 0 ? basicEnd + 1 : 0; index < input.length;) {
+    const oldI = i;
+    for (let w = 1, k = BASE; ; k += BASE) {
+      if (index >= input.length) return null;
+      const code = input.charCodeAt(index++);
+      const digit = code - 48 < 10 ? code - 22 : code - 65 < 26 ? code - 65 : code - 97 < 26 ? code - 97 : BASE;
+      if (digit >= BASE) return null;
+      i += digit * w;
+      const t = k <= bias ? TMIN : k >= bias + TMAX ? TMAX : k - bias;
+      if (digit < t) break;
+      w *= BASE - t;
+      if (!Number.isSafeInteger(i)) return null;
+    }
+    bias = adapt(i - oldI, output.length + 1, oldI === 0);
+    n += Math.floor(i / (output.length + 1));
+    i %= output.length + 1;
+    if (n > 0x10ffff) return null;
+    output.splice(i++, 0, n);
+  }
+
+  return String.fromCodePoint(...output);
+}
+
+// IDNA ToASCII through the WHATWG URL parser, available in Deno and every browser
+function toAsciiDomain(domain: string): string | null {
+  try {
+    return new URL(`http://${domain}/`).hostname;
+  } catch {
+    return null;
+  }
+}
+
+function parseIpLiteral(literal: string): boolean {
+  const inner = literal.slice(1, -1);
+  if (/^IPv6:/i.test(inner)) {
+    try {
+      new URL(`http://[${inner.slice(5)}]/`);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+  const octets = inner.split('.');
+  return octets.length === 4 && octets.every(octet => /^(0|[1-9]\d{0,2})$/.test(octet) && parseInt(octet, 10) <= 255);
+}
+
+export function parseDomain(input: string, options: AddressParseOptions = {}): ParseResult<ParsedDomain> {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const domain = input.trim();
+  if (!domain) return fail('domain_empty');
+
+  if (domain.startsWith('[')) {
+    if (!opts.allowIpLiteral) return fail('ip_literal_not_allowed');
+    if (!domain.endsWith(']') || !parseIpLiteral(domain)) return fail('ip_literal_invalid');
+    return { ok: true, domain, unicodeDomain: domain, ipLiteral: true };
+  }
+
+  const rawLabels = domain.split(/[.。．｡]/);
+  if (rawLabels.some(label => label.length === 0)) return fail('domain_label_empty');
+
+  let ascii = domain.toLowerCase();
+  if ([...domain].some(isNonAscii)) {
+    const converted = toAsciiDomain(domain);
+    if (!converted) return fail('domain_invalid_char');
+    ascii = converted;
+  }
+
+  if (ascii.length > MAX_DOMAIN_LENGTH) return fail('domain_too_long');
+
+  const labels = ascii.split('.');
+  for (const label of labels) {
+    if (label.length === 0) return fail('domain_label_empty');
+    if (label.length > MAX_LABEL_LENGTH) return fail('domain_label_too_long');
+    if (!/^[a-z0-9-]+$/.test(label)) return fail('domain_invalid_char');
+    if (label.startsWith('-') || label.endsWith('-')) return fail('domain_label_hyphen');
+    if (label.startsWith('xn--') && !decodePunycode(label.slice(4))) return fail('punycode_invalid');
+  }
+
+  if (labels.length < 2 && opts.requireTld) return fail('domain_single_label');
+  if (/^\d+$/.test(labels[labels.length - 1])) return fail('domain_numeric_tld');
+
+  const unicodeDomain = labels
+    .map(label => label.startsWith('xn--') ? decodePunycode(label.slice(4)) ?? label : label)
+    .join('.');
+
+  return { ok: true, domain: ascii, unicodeDomain, ipLiteral: false };
+}
+
+// Scans a quoted local part from its opening quote to the closing one, honouring backslash escapes.
+// `end` is the index just past the closing quote.
+function parseQuotedLocalPart(input: string, opts: Required<AddressParseOptions>): ParseResult<{ end: number; smtpUtf8: boolean }> {
+  let smtpUtf8 = false;
+  let escaped = false;
+  let index = 1;
+
+  for (const char of input.slice(1)) {
+    index += char.length;
+    const code = char.charCodeAt(0);
+
+    if (escaped) {
+      // quoted-pairSMTP is a backslash followed by %d32-126
+      if (isNonAscii(char) || code < 32 || code > 126) return fail('quoted_string_invalid_char');
+      escaped = false;
+      continue;
+    }
+    if (char === '\\') {
+      escaped = true;
+      continue;
+    }
+    if (char === '"') return { ok: true, end: index, smtpUtf8 };
+    if (isNonAscii(char)) {
+      if (!opts.allowSmtpUtf8) return fail('utf8_not_allowed');
+      smtpUtf8 = true;
+      continue;
+    }
+    // qtextSMTP is %d32-33 / %d35-91 / %d93-126
+    if (code < 32 || code > 126) return fail('quoted_string_invalid_char');
+  }
+
+  // Also reached when the last character is a backslash with nothing left to escape
+  return fail('quoted_string_unterminated');
+}
+
+export function parseEmailAddress(input: string, options: AddressParseOptions = {}): ParseResult<ParsedAddress> {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const value = (input ?? '').trim();
+  if (!value) return fail('empty');
+
+  let localPart: string;
+  let domainPart: string;
+  let quoted = false;
+  let smtpUtf8 = false;
+
+  if (value.startsWith('"')) {
+    if (!opts.allowQuoted) return fail('quoted_not_allowed');
+    const checked = parseQuotedLocalPart(value, opts);
+    if (checked.ok === false) return checked;
+    const end = checked.end;
+    localPart = value.slice(0, end);
+    if (value[end] !== '@') return fail(end === value.length ? 'missing_at' : 'local_part_invalid_char');
+    domainPart = value.slice(end + 1);
+    quoted = true;
+    smtpUtf8 = checked.smtpUtf8;
+    if (localPart.length === 2) return fail('local_part_empty');
+  } else {
+    const at = value.lastIndexOf('@');
+    if (at === -1) return fail('missing_at');
+    localPart = value.slice(0, at);
+    domainPart = value.slice(at + 1);
+    if (!localPart) return fail('local_part_empty');
+    if (localPart.includes('@')) return fail('multiple_at');
+    if (localPart.startsWith('.') || localPart.endsWith('.')) return fail('local_part_dot_position');
+    if (localPart.includes('..')) return fail('local_part_consecutive_dots');
+
+    for (const char of localPart) {
+      if (char === '.' || ATEXT.test(char)) continue;
+      if (isNonAscii(char)) {
+        if (!opts.allowSmtpUtf8) return fail('utf8_not_allowed');
+        smtpUtf8 = true;
+        continue;
+      }
+      return fail('local_part_invalid_char');
+    }
+  }
+
+  if (utf8Length(localPart) > MAX_LOCAL_PART_LENGTH) return fail('local_part_too_long');
+
+  const domain = parseDomain(domainPart, opts);
+  if (domain.ok === false) return domain;
+
+  const address = `${localPart}@${domain.domain}`;
+  if (utf8Length(address) > MAX_ADDRESS_LENGTH) return fail('address_too_long');
+
+  return {
+    ok: true,
+    address,
+    localPart,
+    quoted,
+    smtpUtf8,
+    domain: domain.domain,
+    unicodeDomain: domain.unicodeDomain,
+    ipLiteral: domain.ipLiteral,
+  };
+}
+
+export function isValidEmailAddress(input: string, options: AddressParseOptions = {}): boolean {
+  return parseEmailAddress(input, options).ok;
+}
@@ -0,0 +1,224 @@
+// Template language for candidate local parts, shared by the edge functions and the browser
+// (re-exported from src/lib). One engine drives the bundled default patterns, the patterns a domain
+// crawl detects (email_patterns) and the custom patterns a user adds to a test.
+//
+//   {first} {last} {middle}   a name part: given name, family name, middle name
+//   {name1} {name2}           the given and family names in the order the person writes them, so
+//                             {name1}.{name2} is john.doe but kim.minjun for a family-name-first name
+//   {f} {l} {m}               an initial (same as {first:1} and so on)
+//   {last:7}                  at most the first 7 characters of the part
+//   [.{middle}]               optional: rendered only when every name part inside it has a value
+//   . _ - letters and digits  literal text, typically separators
+//
+// A pattern without placeholders (info, sales) is a fixed mailbox. Parsing never throws: failures
+// carry a code, a readable message and the position of the offending character.
+// No runtime dependencies, so it runs unchanged under Deno and in the browser.
+
+export type NamePart = 'first' | 'last' | 'middle' | 'name1' | 'name2';
+
+export type PatternNode =
+  | { type: 'literal'; text: string }
+  | { type: 'name'; part: NamePart; length: number | null }
+  | { type: 'optional'; nodes: PatternNode[] };
+
+export interface EmailPattern {
+  source: string;
+  nodes: PatternNode[];
+  parts: NamePart[]; // every name part the pattern refers to, required or optional
+}
+
+export type PatternErrorCode =
+  | 'empty'
+  | 'too_long'
+  | 'invalid_char'
+  | 'unclosed_placeholder'
+  | 'unexpected_brace'
+  | 'empty_placeholder'
+  | 'unknown_placeholder'
+  | 'invalid_length'
+  | 'length_on_initial'
+  | 'unclosed_optional'
+  | 'unexpected_bracket'
+  | 'nested_optional'
+  | 'optional_without_name';
+
+export interface PatternError {
+  code: PatternErrorCode;
+  message: string;
+  position: number;
+}
+
+// Compare ok with === false to narrow: the browser build type-checks without strictNullChecks
+export type PatternParseResult = ({ ok: true } & EmailPattern) | ({ ok: false } & PatternError);
+
+const NAME_PARTS: NamePart[] = ['first', 'last', 'middle', 'name1', 'name2'];
+const INITIALS: Record<string, NamePart> = { f: 'first', l: 'last', m: 'middle' };
+
+// Longest local part SMTP allows
+const MAX_PATTERN_LENGTH = 64;
+
+const LITERAL_CHAR = /^[a-z0-9._-]$/i;
+
+const ERROR_MESSAGES: Record<PatternErrorCode, (detail: string) => string> = {
+  empty: () => 'Pattern is empty',
+  too_long: () => `Pattern is longer than ${MAX_PATTERN_LENGTH} characters`,
+  invalid_char: (char) => `"${char}" is not allowed; literal text can only use letters, digits, ".", "_" and "-"`,
+  unclosed_placeholder: () => 'Placeholder is missing its closing "}"',
+  unexpected_brace: () => 'Unexpected "}" without a matching "{"',
+  empty_placeholder: () => 'Placeholder "{}" is empty; use first, last, middle, name1, name2, f, l or m',
+  unknown_placeholder: (name) => `Unknown placeholder "{${name}}"; use first, last, middle, name1, name2, f, l or m`,
+  invalid_length: (text) => `Length "${text}" must be a whole number from 1 to ${MAX_PATTERN_LENGTH}, as in {last:7}`,
+  length_on_initial: (name) => `"{${name}}" is already one letter and cannot take a length`,
+  unclosed_optional: () => 'Optional part is missing its closing "]"',
+  unexpected_bracket: () => 'Unexpected "]" without a matching "["',
+  nested_optional: () => 'Optional parts cannot be nested',
+  optional_without_name: () => 'Optional part needs a placeholder to depend on, as in [.{middle}]',
+};
+
+function fail(code: PatternErrorCode, position: number, detail = ''): PatternParseResult {
+  return { ok: false, code, message: ERROR_MESSAGES[code](detail), position };
+}
+
+function hasName(nodes: PatternNode[]): boolean {
+  return nodes.some(node => node.type === 'name' || (node.type === 'optional' && hasName(node.nodes)));
+}
+
+// Parses the inside of {...}; position is that of the opening brace
+function parsePlaceholder(body: string, position: number): PatternNode | PatternParseResult {
+  const [rawName, ...lengthParts] = body.split(':');
+  const name = rawName.trim();
+  if (!name) return fail('empty_placeholder', position);
+
+  const initial = INITIALS[name];
+  const part = initial ?? NAME_PARTS.find(candidate => candidate === name);
+  if (!part) return fail('unknown_placeholder', position, name);
+
+  if (lengthParts.length === 0) {
+    return { type: 'name', part, length: initial ? 1 : null };
+  }
+  if (initial) return fail('length_on_initial', position, name);
+
+  const lengthText = lengthParts.join(':').trim();
+  const length = Number(lengthText);
+  if (!/^\d+$/.test(lengthText) || length < 1 || length > MAX_PATTERN_LENGTH) {
+    return fail('invalid_length', position, lengthText);
+  }
+  return { type: 'name', part, length };
+}
+
+export function parseEmailPattern(source: string): PatternParseResult {
+  if (!source.trim()) return fail('empty', 0);
+  if (source.length > MAX_PATTERN_LENGTH) return fail('too_long', MAX_PATTERN_LENGTH);
+
+  const nodes: PatternNode[] = [];
+  let optional: { nodes: PatternNode[]; position: number } | null = null;
+
+  const append = (node: PatternNode) => {
+    const target = optional ? optional.nodes : nodes;
+    const last = target[target.length - 1];
+    // Adjacent literal characters form one literal
+    if (node.type === 'literal' && last?.type === 'literal') {
+      last.text += node.text;
+    } else {
+      target.push(node);
+    }
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+
+    if (char === '{') {
+      const close = source.indexOf('}', i + 1);
+      const body = close < 0 ? '' : source.slice(i + 1, close);
+      if (close < 0 || /[{[\]]/.test(body)) return fail('unclosed_placeholder', i);
+
+      const node = parsePlaceholder(body, i);
+      if ('ok' in node) return node;
+      append(node);
+      i = close;
+    } else if (char === '}') {
+      return fail('unexpected_brace', i);
+    } else if (char === '[') {
+      if (optional) return fail('nested_optional', i);
+      optional = { nodes: [], position: i };
+    } else if (char === ']') {
+      if (!optional) return fail('unexpected_bracket', i);
+      if (!hasName(optional.nodes)) return fail('optional_without_name', optional.position);
+      nodes.push({ type: 'optional', nodes: optional.nodes });
+      optional = null;
+    } else if (LITERAL_CHAR.test(char)) {
+      append({ type: 'literal', text: char.toLowerCase() });
+    } else {
+      return fail('invalid_char', i, char);
+    }
+  }
+
+  if (optional) return fail('unclosed_optional', optional.position);
+
+  const parts = new Set<NamePart>();
+  const collect = (list: PatternNode[]) => list.forEach(node => {
+    if (node.type === 'name') parts.add(node.part);
+    if (node.type === 'optional') collect(node.nodes);
+  });
+  collect(nodes);
+
+  return { ok: true, source, nodes, parts: [...parts] };
+}
+
+// Parses a list of patterns, keeping the valid ones and reporting the rest
+export function parseEmailPatterns(sources: string[]): {
+  patterns: EmailPattern[];
+  errors: (PatternError & { source: string })[];
+} {
+  const patterns: EmailPattern[] = [];
+  const errors: (PatternError & { source: string })[] = [];
+
+  for (const source of sources) {
+    const parsed = parseEmailPattern(source);
+    if (parsed.ok === false) {
+      errors.push({ source, code: parsed.code, message: parsed.message, position: parsed.position });
+    } else {
+      patterns.push({ source: parsed.source, nodes: parsed.nodes, parts: parsed.parts });
+    }
+  }
+
+  return { patterns, errors };
+}
+
+// Name parts as they should appear in an address: already lowercased and reduced to the characters
+// the caller wants. A missing or empty part makes any placeholder that needs it unrenderable.
+export type PatternName = Partial<Record<NamePart, string>>;
+
+// given_first: John Doe. family_first: Kim Min-jun, Nagy Péter (East Asian and Hungarian conventions)
+export type NameOrder = 'given_first' | 'family_first';
+
+// Fills in the order-dependent parts ({name1}, {name2}) from the given and family names
+export function orderedName(name: PatternName, order: NameOrder): PatternName {
+  return order === 'family_first'
+    ? { ...name, name1: name.last, name2: name.first }
+    : { ...name, name1: name.first, name2: name.last };
+}
+
+function renderNodes(nodes: PatternNode[], name: PatternName): string | null {
+  let rendered = '';
+
+  for (const node of nodes) {
+    if (node.type === 'literal') {
+      rendered += node.text;
+    } else if (node.type === 'name') {
+      const value = name[node.part];
+      if (!value) return null;
+      rendered += node.length === null ? value : value.slice(0, node.length);
+    } else {
+      rendered += renderNodes(node.nodes, name) ?? '';
+    }
+  }
+
+  return rendered;
+}
+
+// The local part the pattern produces for a name, or null when a required part is missing
+export function renderEmailPattern(pattern: EmailPattern, name: PatternName): string | null {
+  const rendered = renderNodes(pattern.nodes, name);
+  return rendered ? rendered : null;
+}
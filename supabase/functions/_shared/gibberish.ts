@@ -0,0 +1,61 @@
+// Heuristics for machine-generated local parts (x7k2q9zt@, a1b2c3d4e5f6@, user8837261@) as opposed to
+// names and words. Only looks at the shape of the string, so it never needs a dictionary.
+
+export type GibberishSignal = 'long_digit_run' | 'digit_heavy' | 'hex_token' | 'consonant_run' | 'few_vowels' | 'rare_bigrams';
+
+export interface GibberishResult {
+  gibberish: boolean;
+  signals: GibberishSignal[];
+}
+
+const VOWELS = new Set(['a', 'e', 'i', 'o', 'u', 'y']);
+
+// Letter pairs that almost never occur in English or European names
+const RARE_BIGRAMS = new Set([
+  'bq', 'bx', 'cj', 'cv', 'cx', 'dx', 'fq', 'fx', 'gq', 'gx', 'hx', 'jb', 'jc', 'jd', 'jf', 'jg',
+  'jh', 'jk', 'jl', 'jm', 'jn', 'jp', 'jq', 'jr', 'js', 'jt', 'jv', 'jw', 'jx', 'jz', 'kq', 'kx',
+  'kz', 'mx', 'pq', 'px', 'qb', 'qc', 'qd', 'qf', 'qg', 'qh', 'qj', 'qk', 'ql', 'qm', 'qn', 'qp',
+  'qr', 'qs', 'qt', 'qv', 'qw', 'qx', 'qy', 'qz', 'sx', 'tq', 'vb', 'vf', 'vh', 'vj', 'vk', 'vm',
+  'vp', 'vq', 'vw', 'vx', 'wq', 'wx', 'xj', 'xk', 'xq', 'xz', 'zj', 'zq', 'zx',
+]);
+
+// Most signals need a few characters to mean anything
+const MIN_LENGTH = 6;
+
+export function detectGibberish(localPart: string): GibberishResult {
+  const value = localPart.toLowerCase().replace(/\+.*$/, ''); // ignore subaddress tags
+  const compact = value.replace(/[._\-']/g, '');
+  const signals: GibberishSignal[] = [];
+
+  if (compact.length < MIN_LENGTH) {
+    return { gibberish: false, signals };
+  }
+
+  const digits = compact.replace(/\D/g, '').length;
+  if (/\d{5,}/.test(compact)) signals.push('long_digit_run');
+  if (digits / compact.length > 0.4) signals.push('digit_heavy');
+  if (compact.length >= 12 && /^[0-9a-f]+$/.test(compact) && digits > 0) signals.push('hex_token');
+
+  // The remaining signals look at the letters of each separated part
+  const words = value.split(/[^a-z]+/).filter(word => word.length > 0);
+  if (words.some(word => /[bcdfghjklmnpqrstvwxz]{5,}/.test(word))) signals.push('consonant_run');
+
+  const letters = words.join('');
+  if (letters.length >= MIN_LENGTH) {
+    const vowels = [...letters].filter(char => VOWELS.has(char)).length;
+    if (vowels / letters.length < 0.15) signals.push('few_vowels');
+
+    let rare = 0;
+    for (const word of words) {
+      for (let i = 0; i < word.length - 1; i++) {
+        if (RARE_BIGRAMS.has(word.slice(i, i + 2))) rare++;
+      }
+    }
+    if (rare >= 2) signals.push('rare_bigrams');
+  }
+
+  // One weak signal is common in real addresses (jsmith1985, krzysztof); require two,
+  // or one of the signals that names essentially never produce
+  const strong = signals.includes('hex_token') || signals.includes('long_digit_run') && digits >= 7;
+  return { gibberish: strong || signals.length >= 2, signals };
+}
@@ -0,0 +1,126 @@
+// Durable job queue backed by the jobs table. Producers enqueue a row and nudge the process-jobs worker;
+// the worker claims due jobs under a lease (claim_jobs), so work survives an isolate that dies
+// mid-run: the lease lapses and the next worker run picks the job up again.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+
+// 'priors' is not tied to a test: it recomputes the learned pattern priors (see pattern-priors.ts)
+export type JobType = 'crawl' | 'generate' | 'verify' | 'priors';
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'dead';
+
+export interface Job {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  test_id: string | null;
+  payload: Record<string, unknown>;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  locked_until: string | null;
+  last_error: string | null;
+}
+
+// Long enough for a full verification run; a job still running after this is presumed lost
+export const JOB_LEASE_MS = 10 * 60 * 1000;
+
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 60 * 60 * 1000;
+
+// 30s, 1m, 2m, 4m ... capped at an hour
+export function jobBackoffMs(attempts: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(attempts - 1, 0), BACKOFF_MAX_MS);
+}
+
+export async function enqueueJob(
+  supabase: SupabaseClient,
+  type: JobType,
+  payload: Record<string, unknown>,
+  { testId = null, maxAttempts }: { testId?: string | null; maxAttempts?: number } = {}
+): Promise<Job> {
+  const { data, error } = await supabase
+    .from('jobs')
+    .insert({ type, payload, test_id: testId, ...(maxAttempts ? { max_attempts: maxAttempts } : {}) })
+    .select()
+    .single();
+
+  if (error) throw error;
+  console.log(`Enqueued ${type} job ${data.id}${testId ? ` for test ${testId}` : ''}`);
+  return data as Job;
+}
+
+// Only a nudge so the job starts now rather than on the next scheduled run (pg_cron, every minute);
+// the row is the source of truth
+export async function triggerJobWorker(supabase: SupabaseClient) {
+  const { error } = await supabase.functions.invoke('process-jobs', { body: {} });
+  if (error) {
+    console.error('Error triggering job worker:', error);
+  }
+}
+
+export async function claimJobs(supabase: SupabaseClient, workerId: string, limit: number): Promise<Job[]> {
+  const { data, error } = await supabase.rpc('claim_jobs', {
+    worker_id: workerId,
+    lease_seconds: Math.round(JOB_LEASE_MS / 1000),
+    max_jobs: limit,
+  });
+
+  if (error) throw error;
+  return (data ?? []) as Job[];
+}
+
+export async function completeJob(supabase: SupabaseClient, job: Job, result: unknown) {
+  const { error } = await supabase
+    .from('jobs')
+    .update({
+      status: 'succeeded',
+      result: result ?? null,
+      locked_by: null,
+      locked_until: null,
+      last_error: null,
+      completed_at: new Date().toISOString(),
+    })
+    .eq('id', job.id);
+
+  if (error) {
+    console.error(`Error completing job ${job.id}:`, error);
+  }
+}
+
+// Requeues with backoff, or dead-letters the job once it is out of attempts. Returns the new status.
+export async function failJob(supabase: SupabaseClient, job: Job, message: string): Promise<JobStatus> {
+  const dead = job.attempts >= job.max_attempts;
+  const { error } = await supabase
+    .from('jobs')
+    .update({
+      status: dead ? 'dead' : 'queued',
+      run_at: dead ? job.run_at : new Date(Date.now() + jobBackoffMs(job.attempts)).toISOString(),
+      locked_by: null,
+      locked_until: null,
+      last_error: message,
+      completed_at: dead ? new Date().toISOString() : null,
+    })
+    .eq('id', job.id);
+
+  if (error) {
+    console.error(`Error recording failure of job ${job.id}:`, error);
+  }
+  return dead ? 'dead' : 'queued';
+}
+
+// Manual retry from the UI: a fresh set of attempts, due immediately
+export async function requeueJob(supabase: SupabaseClient, jobId: string) {
+  const { error } = await supabase
+    .from('jobs')
+    .update({
+      status: 'queued',
+      attempts: 0,
+      run_at: new Date().toISOString(),
+      locked_by: null,
+      locked_until: null,
+      completed_at: null,
+    })
+    .eq('id', jobId)
+    .neq('status', 'succeeded');
+
+  if (error) throw error;
+}
@@ -0,0 +1,38 @@
+// Domains offered as "did you mean" targets by the edge functions: the mail providers plus domains
+// we have already seen in email_patterns and found_emails (see domain-suggestions.ts).
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { PROVIDER_DOMAINS } from './domain-suggestions.ts';
+
+const KNOWN_DOMAINS_TTL_MS = 10 * 60 * 1000;
+const KNOWN_DOMAINS_LIMIT = 5000;
+
+let cached: { expiresAt: number; domains: Promise<string[]> } | null = null;
+
+async function fetchKnownDomains(supabase: SupabaseClient): Promise<string[]> {
+  const [patterns, found] = await Promise.all([
+    supabase.from('email_patterns').select('domain').limit(KNOWN_DOMAINS_LIMIT),
+    supabase.from('found_emails').select('domain').limit(KNOWN_DOMAINS_LIMIT),
+  ]);
+  if (patterns.error) console.error('Error loading pattern domains for suggestions:', patterns.error);
+  if (found.error) console.error('Error loading found-email domains for suggestions:', found.error);
+
+  const seen = [...(patterns.data ?? []), ...(found.data ?? [])]
+    .map(row => String(row.domain).toLowerCase());
+
+  return [...new Set([...PROVIDER_DOMAINS, ...seen])];
+}
+
+// Shared per isolate; the provider list alone is used if the tables cannot be read
+export function loadKnownDomains(supabase: SupabaseClient): Promise<string[]> {
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.domains;
+  }
+
+  const domains = fetchKnownDomains(supabase).catch(error => {
+    console.error('Error loading known domains, using providers only:', error);
+    cached = null;
+    return [...PROVIDER_DOMAINS];
+  });
+  cached = { expiresAt: Date.now() + KNOWN_DOMAINS_TTL_MS, domains };
+  return domains;
+}
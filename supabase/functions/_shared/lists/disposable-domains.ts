@@ -0,0 +1,52 @@
+// Bundled disposable/throwaway mail providers. Registrable domains only: subdomains match by suffix.
+// Loaded into disposable_domains by the import-domain-lists function.
+export const DISPOSABLE_DOMAINS = [
+  '0-mail.com', '0815.ru', '0box.eu', '0clickemail.com', '10mail.org', '10minutemail.co.za',
+  '10minutemail.com', '10minutemail.de', '10minutemail.net', '1-mail.com', '12minutemail.com',
+  '1secmail.com', '1secmail.net', '1secmail.org', '20minutemail.com', '2-mail.com', '20mail.it',
+  '2prong.com', '30minutemail.com', '33mail.com', '3d-painting.com', '4warding.com', '7tags.com',
+  'abyssmail.com', 'afrobacon.com', 'anonbox.net', 'anonymbox.com', 'antichef.com', 'antispam.de',
+  'armyspy.com', 'beefmilk.com', 'binkmail.com', 'bobmail.info', 'bofthew.com', 'boximail.com',
+  'brefmail.com', 'bsnow.net', 'bugmenot.com', 'burnermail.io', 'byom.de', 'cuvox.de',
+  'dayrep.com', 'deadaddress.com', 'despam.it', 'devnullmail.com', 'discard.email',
+  'discardmail.com', 'discardmail.de', 'disposableaddress.com', 'disposableemailaddresses.com',
+  'disposableinbox.com', 'dispose.it', 'dispostable.com', 'dodgeit.com', 'dodgit.com',
+  'dropmail.me', 'dumpmail.de', 'dumpyemail.com', 'e4ward.com', 'easytrashmail.com',
+  'einrot.com', 'email-fake.com', 'emailfake.com', 'emailias.com', 'emailondeck.com',
+  'emailsensei.com', 'emailtemporario.com.br', 'emailwarden.com', 'emailx.at.hm', 'emailxfer.com',
+  'emltmp.com', 'emz.net', 'enterto.com', 'ephemail.net', 'etranquil.com', 'fakeinbox.com',
+  'fakemail.net', 'fakemailgenerator.com', 'fastacura.com', 'filzmail.com', 'fleckens.hu',
+  'getairmail.com', 'getnada.com', 'gishpuppy.com', 'grr.la', 'guerrillamail.biz',
+  'guerrillamail.com', 'guerrillamail.de', 'guerrillamail.info', 'guerrillamail.net',
+  'guerrillamail.org', 'guerrillamailblock.com', 'gustr.com', 'harakirimail.com', 'hmamail.com',
+  'hulapla.de', 'inboxalias.com', 'inboxbear.com', 'incognitomail.com', 'incognitomail.org',
+  'instant-mail.de', 'jetable.com', 'jetable.fr.nf', 'jetable.net', 'jetable.org', 'jourrapide.com',
+  'kasmail.com', 'killmail.com', 'klzlk.com', 'koszmail.pl', 'kurzepost.de', 'letthemeatspam.com',
+  'lhsdv.com', 'lookugly.com', 'lortemail.dk', 'mail-temp.com', 'mail.tm', 'mail1a.de',
+  'mail2rss.org', 'mailcatch.com', 'maildrop.cc', 'mailexpire.com', 'mailforspam.com',
+  'mailfreeonline.com', 'mailimate.com', 'mailin8r.com', 'mailinator.com', 'mailinator.net',
+  'mailinator.org', 'mailinator2.com', 'mailmetrash.com', 'mailmoat.com', 'mailnesia.com',
+  'mailnull.com', 'mailpoof.com', 'mailsac.com', 'mailscrap.com', 'mailshell.com',
+  'mailtemp.info', 'mailtothis.com', 'meltmail.com', 'mintemail.com', 'moakt.com', 'mohmal.com',
+  'mt2015.com', 'mytemp.email', 'mytrashmail.com', 'nada.email', 'neomailbox.com', 'nepwk.com',
+  'nervmich.net', 'nervtmich.net', 'netmails.net', 'nomail.xl.cx', 'nospam.ze.tc',
+  'nospamfor.us', 'nowmymail.com', 'objectmail.com', 'obobbo.com', 'oneoffemail.com',
+  'onewaymail.com', 'owlpic.com', 'pookmail.com', 'proxymail.eu', 'punkass.com', 'putthisinyourspamdatabase.com',
+  'quickinbox.com', 'rcpt.at', 'recode.me', 'rhyta.com', 'rmqkr.net', 'safetymail.info',
+  'sharklasers.com', 'shieldemail.com', 'shitmail.me', 'skeefmail.com', 'slopsbox.com',
+  'smellfear.com', 'snakemail.com', 'sofimail.com', 'spam4.me', 'spamavert.com', 'spambog.com',
+  'spambox.us', 'spamcero.com', 'spamex.com', 'spamfree24.org', 'spamgourmet.com', 'spamhole.com',
+  'spaml.com', 'spammotel.com', 'spamspot.com', 'spamthis.co.uk', 'speed.1s.fr', 'superrito.com',
+  'tafmail.com', 'teleworm.us', 'temp-mail.io', 'temp-mail.org', 'tempail.com', 'tempemail.net',
+  'tempinbox.com', 'tempmail.dev', 'tempmail.net', 'tempmail.org', 'tempmailaddress.com',
+  'tempmailo.com', 'tempr.email', 'tempomail.fr', 'temporaryemail.net', 'temporaryinbox.com',
+  'thankyou2010.com', 'thisisnotmyrealemail.com', 'throwam.com', 'throwawayemailaddress.com',
+  'throwaway.email', 'tmail.ws', 'tmailinator.com', 'tmpmail.net', 'tmpmail.org', 'trash-mail.at',
+  'trash-mail.com', 'trash-mail.de', 'trash2009.com', 'trashdevil.com', 'trashemail.de',
+  'trashmail.at', 'trashmail.com', 'trashmail.de', 'trashmail.me', 'trashmail.net',
+  'trashmailer.com', 'trashymail.com', 'trbvm.com', 'twinmail.de', 'tyldd.com', 'uggsrock.com',
+  'upliftnow.com', 'veryrealemail.com', 'viditag.com', 'wegwerfadresse.de', 'wegwerfemail.de',
+  'wegwerfmail.de', 'wegwerfmail.net', 'wegwerfmail.org', 'wh4f.org', 'whyspam.me', 'willselfdestruct.com',
+  'winemaven.info', 'wronghead.com', 'wuzupmail.net', 'xagloo.com', 'yepmail.net', 'yopmail.com',
+  'yopmail.fr', 'yopmail.net', 'zehnminutenmail.de', 'zippymail.info', 'zoemail.org',
+];
@@ -0,0 +1,16 @@
+// Bundled consumer webmail providers: real mailboxes, but not a company's own domain.
+// Loaded into disposable_domains (category 'free_webmail') by the import-domain-lists function.
+export const FREE_WEBMAIL_DOMAINS = [
+  'aol.com', 'aim.com', 'att.net', 'bellsouth.net', 'btinternet.com', 'comcast.net', 'cox.net',
+  'duck.com', 'fastmail.com', 'fastmail.fm', 'free.fr', 'gmail.com', 'gmx.at', 'gmx.com', 'gmx.de',
+  'gmx.net', 'googlemail.com', 'hey.com', 'hotmail.co.uk', 'hotmail.com', 'hotmail.de',
+  'hotmail.fr', 'hotmail.it', 'hushmail.com', 'icloud.com', 'inbox.com', 'laposte.net',
+  'libero.it', 'live.co.uk', 'live.com', 'live.fr', 'mac.com', 'mail.com', 'mail.ru', 'me.com',
+  'msn.com', 'naver.com', 'orange.fr', 'outlook.com', 'outlook.de', 'outlook.fr', 'pm.me',
+  'proton.me', 'protonmail.ch', 'protonmail.com', 'qq.com', 'rambler.ru', 'rediffmail.com',
+  'rocketmail.com', 'sbcglobal.net', 'seznam.cz', 'sky.com', 't-online.de', 'tutanota.com',
+  'tutanota.de', 'verizon.net', 'virgilio.it', 'web.de', 'wp.pl', 'yahoo.ca', 'yahoo.co.in',
+  'yahoo.co.jp', 'yahoo.co.uk', 'yahoo.com', 'yahoo.com.au', 'yahoo.com.br', 'yahoo.de',
+  'yahoo.es', 'yahoo.fr', 'yahoo.it', 'yandex.com', 'yandex.ru', 'ymail.com', 'zoho.com',
+  'zohomail.com',
+];
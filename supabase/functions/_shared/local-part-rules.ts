@@ -0,0 +1,155 @@
+// Local-part rules of the big consumer mail providers. An address these providers could never have
+// issued (gmail's 6-30 letters, digits and dots; Yahoo's 4-32 characters starting with a letter) is
+// rejected before any network work, and equivalent spellings collapse to one canonical address:
+// Gmail ignores dots, and most of these providers deliver user+tag to user.
+// Rules only cover the provider's own domains. Elsewhere the local part is kept whole: '+' is a
+// legal character, and on a server without sub-addressing john+news is a different mailbox.
+
+export type LocalPartViolation =
+  | 'too_short'
+  | 'too_long'
+  | 'invalid_character'
+  | 'invalid_start'
+  | 'invalid_end'
+  | 'consecutive_dots';
+
+export interface LocalPartRule {
+  provider: string;
+  domains: string[];
+  // The domain equivalent addresses are rewritten to (googlemail.com -> gmail.com)
+  canonicalDomain?: string;
+  // Length limits apply to the account name: without the subaddress tag, and without dots if ignored
+  minLength: number;
+  maxLength: number;
+  allowedCharacters: RegExp;
+  firstCharacter: RegExp;
+  lastCharacter: RegExp;
+  allowConsecutiveDots: boolean;
+  ignoresDots: boolean;
+  subaddressSeparator?: string;
+}
+
+export interface LocalPartCheck {
+  ok: boolean;
+  provider?: string;
+  violation?: LocalPartViolation;
+  message?: string;
+  canonical: string;
+}
+
+export const LOCAL_PART_RULES: LocalPartRule[] = [
+  {
+    provider: 'Gmail',
+    domains: ['gmail.com', 'googlemail.com'],
+    canonicalDomain: 'gmail.com',
+    minLength: 6,
+    maxLength: 30,
+    allowedCharacters: /^[a-z0-9.]$/,
+    firstCharacter: /^[a-z0-9]$/,
+    lastCharacter: /^[a-z0-9]$/,
+    allowConsecutiveDots: false,
+    ignoresDots: true,
+    subaddressSeparator: '+',
+  },
+  {
+    provider: 'Outlook.com',
+    domains: ['outlook.com', 'hotmail.com', 'live.com', 'msn.com', 'hotmail.co.uk', 'live.co.uk', 'outlook.fr', 'hotmail.fr'],
+    minLength: 1,
+    maxLength: 64,
+    allowedCharacters: /^[a-z0-9._-]$/,
+    firstCharacter: /^[a-z]$/,
+    lastCharacter: /^[a-z0-9_-]$/,
+    allowConsecutiveDots: false,
+    ignoresDots: false,
+    subaddressSeparator: '+',
+  },
+  {
+    // Yahoo has no plus addressing; its "base-keyword" aliases are separate disposable addresses
+    provider: 'Yahoo',
+    domains: ['yahoo.com', 'ymail.com', 'rocketmail.com', 'yahoo.co.uk', 'yahoo.fr', 'yahoo.de'],
+    minLength: 4,
+    maxLength: 32,
+    allowedCharacters: /^[a-z0-9._-]$/,
+    firstCharacter: /^[a-z]$/,
+    lastCharacter: /^[a-z0-9]$/,
+    allowConsecutiveDots: false,
+    ignoresDots: false,
+  },
+  {
+    provider: 'AOL',
+    domains: ['aol.com', 'aim.com'],
+    minLength: 3,
+    maxLength: 32,
+    allowedCharacters: /^[a-z0-9._]$/,
+    firstCharacter: /^[a-z]$/,
+    lastCharacter: /^[a-z0-9_]$/,
+    allowConsecutiveDots: false,
+    ignoresDots: false,
+  },
+  {
+    provider: 'iCloud Mail',
+    domains: ['icloud.com', 'me.com', 'mac.com'],
+    minLength: 3,
+    maxLength: 20,
+    allowedCharacters: /^[a-z0-9._]$/,
+    firstCharacter: /^[a-z]$/,
+    lastCharacter: /^[a-z0-9_]$/,
+    allowConsecutiveDots: false,
+    ignoresDots: false,
+    subaddressSeparator: '+',
+  },
+];
+
+const RULES_BY_DOMAIN = new Map(LOCAL_PART_RULES.flatMap(rule => rule.domains.map(domain => [domain, rule] as const)));
+
+const VIOLATION_MESSAGES: Record<LocalPartViolation, string> = {
+  too_short: 'is shorter than the provider allows',
+  too_long: 'is longer than the provider allows',
+  invalid_character: 'contains a character the provider does not allow',
+  invalid_start: 'starts with a character the provider does not allow',
+  invalid_end: 'ends with a character the provider does not allow',
+  consecutive_dots: 'contains consecutive dots',
+};
+
+export function findLocalPartRule(domain: string): LocalPartRule | undefined {
+  return RULES_BY_DOMAIN.get(domain.toLowerCase());
+}
+
+function findViolation(rule: LocalPartRule, account: string): LocalPartViolation | undefined {
+  if (![...account].every(char => rule.allowedCharacters.test(char))) return 'invalid_character';
+  if (!rule.firstCharacter.test(account.charAt(0))) return 'invalid_start';
+  if (!rule.lastCharacter.test(account.charAt(account.length - 1))) return 'invalid_end';
+  if (!rule.allowConsecutiveDots && account.includes('..')) return 'consecutive_dots';
+
+  const length = rule.ignoresDots ? account.replace(/\./g, '').length : account.length;
+  if (length < rule.minLength) return 'too_short';
+  if (length > rule.maxLength) return 'too_long';
+  return undefined;
+}
+
+// Expects an address the RFC parser has already accepted; the domain should be in ASCII form
+export function checkLocalPart(localPart: string, domain: string): LocalPartCheck {
+  const lowerDomain = domain.toLowerCase();
+  const lowerLocal = localPart.toLowerCase();
+  const rule = findLocalPartRule(lowerDomain);
+  if (!rule) {
+    return { ok: true, canonical: `${lowerLocal}@${lowerDomain}` };
+  }
+
+  const separatorIndex = rule.subaddressSeparator ? lowerLocal.indexOf(rule.subaddressSeparator) : -1;
+  const account = separatorIndex >= 0 ? lowerLocal.slice(0, separatorIndex) : lowerLocal;
+  const canonicalLocal = rule.ignoresDots ? account.replace(/\./g, '') : account;
+  const canonical = `${canonicalLocal}@${rule.canonicalDomain ?? lowerDomain}`;
+
+  const violation = findViolation(rule, account);
+  if (violation) {
+    return {
+      ok: false,
+      provider: rule.provider,
+      violation,
+      message: `${rule.provider} address ${VIOLATION_MESSAGES[violation]}`,
+      canonical,
+    };
+  }
+  return { ok: true, provider: rule.provider, canonical };
+}
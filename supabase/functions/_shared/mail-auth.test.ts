@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { checkDmarc, checkMtaSts, checkSpf } from './mail-auth.ts';
+import { createResolver, createZoneBackend, type FakeZone } from './resolver.ts';
+
+function spfZone(records: Record<string, string>): FakeZone {
+  return Object.fromEntries(Object.entries(records).map(([name, record]) => [name, { TXT: [record] }]));
+}
+
+function check(records: Record<string, string>, domain = 'corp.test') {
+  return checkSpf(domain, createResolver({ backends: [createZoneBackend(spfZone(records))] }));
+}
+
+const loopFindings = (findings: { message: string }[]) => findings.filter(finding => /loop/.test(finding.message));
+
+describe('checkSpf include chain', () => {
+  it('accepts a domain included from two branches', async () => {
+    const report = await check({
+      'corp.test': 'v=spf1 include:a.test include:b.test -all',
+      'a.test': 'v=spf1 include:shared.test -all',
+      'b.test': 'v=spf1 include:shared.test -all',
+      'shared.test': 'v=spf1 ip4:192.0.2.0/24 -all',
+    });
+
+    expect(loopFindings(report.findings)).toEqual([]);
+    expect(report.valid).toBe(true);
+    // The shared include is evaluated, and counted, once per branch
+    expect(report.lookupCount).toBe(4);
+    expect(report.includes.map(include => include.domain)).toEqual(['a.test', 'shared.test', 'b.test', 'shared.test']);
+  });
+
+  it('reports a domain that includes itself through the chain', async () => {
+    const report = await check({
+      'corp.test': 'v=spf1 include:a.test -all',
+      'a.test': 'v=spf1 include:corp.test -all',
+    });
+
+    expect(loopFindings(report.findings).map(finding => finding.message)).toEqual(['SPF include loop through corp.test']);
+    expect(report.valid).toBe(false);
+  });
+
+  it('reports a redirect back to a domain already in the chain', async () => {
+    const report = await check({
+      'corp.test': 'v=spf1 redirect=a.test',
+      'a.test': 'v=spf1 redirect=corp.test',
+    });
+
+    expect(loopFindings(report.findings)).toHaveLength(1);
+  });
+
+  it('counts repeated includes toward the lookup limit', async () => {
+    const report = await check({
+      'corp.test': 'v=spf1 include:a.test include:b.test -all',
+      'a.test': 'v=spf1 include:shared.test include:shared.test -all',
+      'b.test': 'v=spf1 include:shared.test include:shared.test -all',
+      'shared.test': 'v=spf1 a mx -all',
+    });
+
+    expect(loopFindings(report.findings)).toEqual([]);
+    expect(report.lookupCount).toBeGreaterThan(10);
+    expect(report.findings.map(finding => finding.message)).toContainEqual(expect.stringMatching(/DNS lookups \(limit 10\)/));
+  });
+});
+
+describe('checkDmarc organizational fallback', () => {
+  const dmarc = (zone: FakeZone, domain: string) => checkDmarc(domain, createResolver({ backends: [createZoneBackend(zone)] }));
+
+  it('falls back to the organizational domain under a two-level suffix', async () => {
+    const report = await dmarc({
+      '_dmarc.acme.co.uk': { TXT: ['v=DMARC1; p=reject; rua=mailto:dmarc@acme.co.uk'] },
+    }, 'mail.acme.co.uk');
+
+    expect(report.source).toBe('_dmarc.acme.co.uk');
+    expect(report.policy).toBe('reject');
+  });
+
+  it('never looks the record up at the suffix itself', async () => {
+    const report = await dmarc({
+      '_dmarc.co.uk': { TXT: ['v=DMARC1; p=reject'] },
+    }, 'acme.co.uk');
+
+    expect(report.record).toBeUndefined();
+  });
+
+  it('falls back to the last two labels under a plain TLD', async () => {
+    const report = await dmarc({
+      '_dmarc.acme.com': { TXT: ['v=DMARC1; p=none'] },
+    }, 'mail.acme.com');
+
+    expect(report.source).toBe('_dmarc.acme.com');
+  });
+});
+
+describe('checkMtaSts', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it.each(['x@169.254.169.254/', 'corp.test:8443', 'corp.test/admin?', '[127.0.0.1]'])(
+    'refuses to fetch a policy for %j',
+    async domain => {
+      const fetch = vi.fn();
+      vi.stubGlobal('fetch', fetch);
+      const dns = createResolver({ backends: [createZoneBackend({})] });
+
+      const report = await checkMtaSts(domain, dns);
+
+      expect(fetch).not.toHaveBeenCalled();
+      expect(report.valid).toBe(false);
+      expect(report.policyError).toBe('not a plain hostname');
+    }
+  );
+});
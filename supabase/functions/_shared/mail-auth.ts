@@ -0,0 +1,402 @@
+// Email-authentication records for a domain: SPF (RFC 7208), DMARC (RFC 7489), MTA-STS (RFC 8461),
+// TLS-RPT (RFC 8460) and BIMI. Each check returns the raw record, the parsed fields and any problems
+// found, so the caller can judge how healthy the domain's mail setup is.
+import { parseDomain } from './email-address.ts';
+import { organizationalDomain } from './public-suffix.ts';
+import { resolver, type Resolver } from './resolver.ts';
+
+export type Finding = { level: 'error' | 'warning'; message: string };
+
+export interface SpfMechanism {
+  qualifier: '+' | '-' | '~' | '?';
+  type: string;
+  value?: string;
+}
+
+export interface SpfReport {
+  record?: string;
+  valid: boolean;
+  mechanisms: SpfMechanism[];
+  redirect?: string;
+  all?: SpfMechanism['qualifier'];
+  includes: { domain: string; record?: string; error?: string }[];
+  lookupCount: number; // DNS-querying terms across the whole include chain (limit 10)
+  voidLookups: number; // lookups that returned no records (limit 2)
+  findings: Finding[];
+}
+
+export interface DmarcReport {
+  record?: string;
+  source?: string; // the name the record was found at (may be the organisational domain)
+  valid: boolean;
+  tags: Record<string, string>;
+  policy?: string;
+  subdomainPolicy?: string;
+  pct?: number;
+  rua: string[];
+  ruf: string[];
+  findings: Finding[];
+}
+
+export interface MtaStsReport {
+  record?: string;
+  id?: string;
+  policy?: { version?: string; mode?: string; mx: string[]; maxAge?: number };
+  policyError?: string;
+  valid: boolean;
+  findings: Finding[];
+}
+
+export interface TlsRptReport {
+  record?: string;
+  rua: string[];
+  valid: boolean;
+  findings: Finding[];
+}
+
+export interface BimiReport {
+  record?: string;
+  logo?: string;
+  authority?: string;
+  valid: boolean;
+  findings: Finding[];
+}
+
+export interface MailAuthReport {
+  domain: string;
+  spf: SpfReport;
+  dmarc: DmarcReport;
+  mtaSts: MtaStsReport;
+  tlsRpt: TlsRptReport;
+  bimi: BimiReport;
+  findings: (Finding & { check: 'spf' | 'dmarc' | 'mta_sts' | 'tls_rpt' | 'bimi' })[];
+  checkedAt: string;
+}
+
+const SPF_LOOKUP_LIMIT = 10;
+const SPF_VOID_LOOKUP_LIMIT = 2;
+const MTA_STS_TIMEOUT_MS = 5000;
+
+// Parse "k=v; k=v" records (DMARC, MTA-STS, TLS-RPT, BIMI) into lowercase keys
+export function parseTagList(record: string): Record<string, string> {
+  const tags: Record<string, string> = {};
+  for (const part of record.split(';')) {
+    const index = part.indexOf('=');
+    if (index === -1) continue;
+    const key = part.slice(0, index).trim().toLowerCase();
+    if (key) tags[key] = part.slice(index + 1).trim();
+  }
+  return tags;
+}
+
+function splitUris(value?: string): string[] {
+  return value ? value.split(',').map(uri => uri.trim()).filter(Boolean) : [];
+}
+
+// TXT records at a name that start with the given version tag
+async function findRecords(dns: Resolver, name: string, prefix: RegExp): Promise<{ records: string[]; void: boolean }> {
+  const answer = await dns.query(name, 'TXT');
+  return {
+    records: answer.records.filter(record => prefix.test(record.trim())),
+    void: answer.status !== 'ok',
+  };
+}
+
+export function parseSpfRecord(record: string): { mechanisms: SpfMechanism[]; redirect?: string; unknown: string[] } {
+  const mechanisms: SpfMechanism[] = [];
+  const unknown: string[] = [];
+  let redirect: string | undefined;
+
+  for (const term of record.trim().split(/\s+/).slice(1)) {
+    const modifier = term.match(/^([a-z][a-z0-9_.-]*)=(.*)$/i);
+    if (modifier) {
+      if (modifier[1].toLowerCase() === 'redirect') redirect = modifier[2].toLowerCase();
+      continue;
+    }
+
+    const match = term.match(/^([+\-~?]?)(all|include|a|mx|ptr|ip4|ip6|exists)(?:[:/](.*))?$/i);
+    if (!match) {
+      unknown.push(term);
+      continue;
+    }
+    mechanisms.push({
+      qualifier: (match[1] || '+') as SpfMechanism['qualifier'],
+      type: match[2].toLowerCase(),
+      value: match[3],
+    });
+  }
+
+  return { mechanisms, redirect, unknown };
+}
+
+// Terms that cost a DNS lookup under RFC 7208 section 4.6.4
+const LOOKUP_MECHANISMS = ['include', 'a', 'mx', 'ptr', 'exists'];
+
+export async function checkSpf(domain: string, dns: Resolver = resolver): Promise<SpfReport> {
+  const report: SpfReport = { valid: false, mechanisms: [], includes: [], lookupCount: 0, voidLookups: 0, findings: [] };
+
+  const found = await findRecords(dns, domain, /^v=spf1(\s|$)/i);
+  if (found.records.length === 0) {
+    report.findings.push({ level: 'warning', message: 'No SPF record published' });
+    return report;
+  }
+  if (found.records.length > 1) {
+    report.findings.push({ level: 'error', message: 'Multiple SPF records published (permerror)' });
+  }
+
+  report.record = found.records[0];
+  const parsed = parseSpfRecord(report.record);
+  report.mechanisms = parsed.mechanisms;
+  report.redirect = parsed.redirect;
+  report.all = parsed.mechanisms.find(mechanism => mechanism.type === 'all')?.qualifier;
+  parsed.unknown.forEach(term => report.findings.push({ level: 'error', message: `Unknown SPF term: ${term}` }));
+
+  // Walk the include/redirect chain, counting lookups the way a receiver would: a domain included
+  // twice from different branches (a diamond) is evaluated, and counted, twice. Only a domain that
+  // includes itself through the current chain is a loop.
+  const expand = async (mechanisms: SpfMechanism[], redirect: string | undefined, path: string[]) => {
+    for (const mechanism of mechanisms) {
+      if (!LOOKUP_MECHANISMS.includes(mechanism.type)) continue;
+      report.lookupCount++;
+      if (mechanism.type === 'include' && mechanism.value) {
+        await expandInclude(mechanism.value.toLowerCase(), path);
+      }
+    }
+    if (redirect) {
+      report.lookupCount++;
+      await expandInclude(redirect, path);
+    }
+  };
+
+  const expandInclude = async (target: string, path: string[]) => {
+    if (path.includes(target)) {
+      report.findings.push({ level: 'error', message: `SPF include loop through ${target}` });
+      return;
+    }
+    if (report.lookupCount > SPF_LOOKUP_LIMIT) return;
+
+    try {
+      const included = await findRecords(dns, target, /^v=spf1(\s|$)/i);
+      if (included.void) report.voidLookups++;
+      if (included.records.length !== 1) {
+        report.includes.push({ domain: target, error: included.records.length === 0 ? 'no SPF record' : 'multiple SPF records' });
+        return;
+      }
+      report.includes.push({ domain: target, record: included.records[0] });
+      const child = parseSpfRecord(included.records[0]);
+      await expand(child.mechanisms, child.redirect, [...path, target]);
+    } catch (error) {
+      report.includes.push({ domain: target, error: (error as Error).message });
+    }
+  };
+
+  await expand(parsed.mechanisms, parsed.redirect, [domain]);
+
+  if (report.lookupCount > SPF_LOOKUP_LIMIT) {
+    report.findings.push({ level: 'error', message: `SPF needs ${report.lookupCount} DNS lookups (limit ${SPF_LOOKUP_LIMIT})` });
+  }
+  if (report.voidLookups > SPF_VOID_LOOKUP_LIMIT) {
+    report.findings.push({ level: 'error', message: `SPF has ${report.voidLookups} void lookups (limit ${SPF_VOID_LOOKUP_LIMIT})` });
+  }
+  report.includes.filter(include => include.error).forEach(include => {
+    report.findings.push({ level: 'error', message: `SPF include ${include.domain}: ${include.error}` });
+  });
+  if (!report.all && !report.redirect) {
+    report.findings.push({ level: 'warning', message: 'SPF has no "all" mechanism (defaults to neutral)' });
+  } else if (report.all === '+') {
+    report.findings.push({ level: 'error', message: 'SPF ends in "+all" and authorises every sender' });
+  } else if (report.all === '?') {
+    report.findings.push({ level: 'warning', message: 'SPF ends in "?all" (neutral)' });
+  }
+
+  report.valid = !report.findings.some(finding => finding.level === 'error');
+  return report;
+}
+
+export async function checkDmarc(domain: string, dns: Resolver = resolver): Promise<DmarcReport> {
+  const report: DmarcReport = { valid: false, tags: {}, rua: [], ruf: [], findings: [] };
+
+  const names = [`_dmarc.${domain}`];
+  const orgDomain = organizationalDomain(domain);
+  if (orgDomain !== domain) names.push(`_dmarc.${orgDomain}`);
+
+  for (const name of names) {
+    const found = await findRecords(dns, name, /^v=DMARC1\s*(;|$)/i);
+    if (found.records.length === 0) continue;
+    if (found.records.length > 1) {
+      report.findings.push({ level: 'error', message: `Multiple DMARC records at ${name}` });
+    }
+    report.record = found.records[0];
+    report.source = name;
+    break;
+  }
+
+  if (!report.record) {
+    report.findings.push({ level: 'warning', message: 'No DMARC record published' });
+    return report;
+  }
+
+  report.tags = parseTagList(report.record);
+  report.policy = report.tags.p?.toLowerCase();
+  report.subdomainPolicy = report.tags.sp?.toLowerCase() ?? report.policy;
+  report.pct = report.tags.pct !== undefined ? parseInt(report.tags.pct, 10) : 100;
+  report.rua = splitUris(report.tags.rua);
+  report.ruf = splitUris(report.tags.ruf);
+
+  if (!report.policy || !['none', 'quarantine', 'reject'].includes(report.policy)) {
+    report.findings.push({ level: 'error', message: 'DMARC record has no valid "p" policy' });
+  } else if (report.policy === 'none') {
+    report.findings.push({ level: 'warning', message: 'DMARC policy is "none" (monitoring only)' });
+  }
+  if (Number.isNaN(report.pct) || report.pct < 0 || report.pct > 100) {
+    report.findings.push({ level: 'error', message: `DMARC pct is out of range: ${report.tags.pct}` });
+  } else if (report.pct < 100) {
+    report.findings.push({ level: 'warning', message: `DMARC policy only applies to ${report.pct}% of mail` });
+  }
+  if (report.rua.length === 0) {
+    report.findings.push({ level: 'warning', message: 'DMARC has no aggregate report address (rua)' });
+  }
+
+  report.valid = !report.findings.some(finding => finding.level === 'error');
+  return report;
+}
+
+// Parse the text policy file served at https://mta-sts.<domain>/.well-known/mta-sts.txt
+export function parseMtaStsPolicy(text: string): NonNullable<MtaStsReport['policy']> {
+  const policy: NonNullable<MtaStsReport['policy']> = { mx: [] };
+  for (const line of text.split(/\r?\n/)) {
+    const index = line.indexOf(':');
+    if (index === -1) continue;
+    const key = line.slice(0, index).trim().toLowerCase();
+    const value = line.slice(index + 1).trim();
+    if (key === 'version') policy.version = value;
+    if (key === 'mode') policy.mode = value.toLowerCase();
+    if (key === 'mx') policy.mx.push(value.toLowerCase());
+    if (key === 'max_age') policy.maxAge = parseInt(value, 10);
+  }
+  return policy;
+}
+
+export async function checkMtaSts(domain: string, dns: Resolver = resolver): Promise<MtaStsReport> {
+  const report: MtaStsReport = { valid: false, findings: [] };
+
+  // The policy host is built from the domain; never let a path, port or address into the URL
+  const host = parseDomain(`mta-sts.${domain}`, { allowIpLiteral: false });
+  if (host.ok === false || host.domain !== `mta-sts.${domain.toLowerCase()}`) {
+    report.policyError = 'not a plain hostname';
+    report.findings.push({ level: 'error', message: `MTA-STS policy host for ${domain} is not a plain hostname` });
+    return report;
+  }
+
+  const found = await findRecords(dns, `_mta-sts.${domain}`, /^v=STSv1\s*(;|$)/i);
+  if (found.records.length === 0) {
+    report.findings.push({ level: 'warning', message: 'No MTA-STS record published' });
+    return report;
+  }
+  report.record = found.records[0];
+  report.id = parseTagList(report.record).id;
+  if (!report.id) {
+    report.findings.push({ level: 'error', message: 'MTA-STS record has no "id"' });
+  }
+
+  try {
+    const response = await fetch(`https://${host.domain}/.well-known/mta-sts.txt`, {
+      redirect: 'error',
+      signal: AbortSignal.timeout(MTA_STS_TIMEOUT_MS)
+    });
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+    report.policy = parseMtaStsPolicy(await response.text());
+    if (report.policy.version !== 'STSv1') {
+      report.findings.push({ level: 'error', message: 'MTA-STS policy has no "version: STSv1" line' });
+    }
+    if (!report.policy.mode || !['enforce', 'testing', 'none'].includes(report.policy.mode)) {
+      report.findings.push({ level: 'error', message: 'MTA-STS policy has no valid mode' });
+    } else if (report.policy.mode !== 'enforce') {
+      report.findings.push({ level: 'warning', message: `MTA-STS mode is "${report.policy.mode}"` });
+    }
+    if (report.policy.mx.length === 0 && report.policy.mode !== 'none') {
+      report.findings.push({ level: 'error', message: 'MTA-STS policy lists no MX patterns' });
+    }
+    if (report.policy.maxAge === undefined || Number.isNaN(report.policy.maxAge)) {
+      report.findings.push({ level: 'error', message: 'MTA-STS policy has no valid max_age' });
+    }
+  } catch (error) {
+    report.policyError = (error as Error).message;
+    report.findings.push({ level: 'error', message: `MTA-STS policy could not be fetched: ${report.policyError}` });
+  }
+
+  report.valid = !report.findings.some(finding => finding.level === 'error');
+  return report;
+}
+
+export async function checkTlsRpt(domain: string, dns: Resolver = resolver): Promise<TlsRptReport> {
+  const report: TlsRptReport = { rua: [], valid: false, findings: [] };
+
+  const found = await findRecords(dns, `_smtp._tls.${domain}`, /^v=TLSRPTv1\s*(;|$)/i);
+  if (found.records.length === 0) {
+    report.findings.push({ level: 'warning', message: 'No TLS-RPT record published' });
+    return report;
+  }
+  report.record = found.records[0];
+  report.rua = splitUris(parseTagList(report.record).rua);
+  if (report.rua.length === 0) {
+    report.findings.push({ level: 'error', message: 'TLS-RPT record has no "rua" report address' });
+  }
+
+  report.valid = !report.findings.some(finding => finding.level === 'error');
+  return report;
+}
+
+export async function checkBimi(domain: string, dns: Resolver = resolver): Promise<BimiReport> {
+  const report: BimiReport = { valid: false, findings: [] };
+
+  const found = await findRecords(dns, `default._bimi.${domain}`, /^v=BIMI1\s*(;|$)/i);
+  if (found.records.length === 0) {
+    return report;
+  }
+  report.record = found.records[0];
+  const tags = parseTagList(report.record);
+  report.logo = tags.l || undefined;
+  report.authority = tags.a || undefined;
+  if (report.logo && !report.logo.startsWith('https://')) {
+    report.findings.push({ level: 'error', message: 'BIMI logo must be served over HTTPS' });
+  }
+  if (!report.authority) {
+    report.findings.push({ level: 'warning', message: 'BIMI record has no authority evidence (a=)' });
+  }
+
+  report.valid = !report.findings.some(finding => finding.level === 'error');
+  return report;
+}
+
+// A check that throws (resolver failure) becomes a report carrying that error
+async function settle<T extends { valid: boolean; findings: Finding[] }>(check: Promise<T>, fallback: Omit<T, 'valid' | 'findings'>): Promise<T> {
+  try {
+    return await check;
+  } catch (error) {
+    return { ...fallback, valid: false, findings: [{ level: 'error', message: `Lookup failed: ${(error as Error).message}` }] } as T;
+  }
+}
+
+export async function analyzeMailAuth(rawDomain: string, dns: Resolver = resolver): Promise<MailAuthReport> {
+  const domain = rawDomain.trim().toLowerCase();
+
+  const [spf, dmarc, mtaSts, tlsRpt, bimi] = await Promise.all([
+    settle(checkSpf(domain, dns), { mechanisms: [], includes: [], lookupCount: 0, voidLookups: 0 }),
+    settle(checkDmarc(domain, dns), { tags: {}, rua: [], ruf: [] }),
+    settle(checkMtaSts(domain, dns), {}),
+    settle(checkTlsRpt(domain, dns), { rua: [] }),
+    settle(checkBimi(domain, dns), {}),
+  ]);
+
+  const findings = [
+    ...spf.findings.map(finding => ({ ...finding, check: 'spf' as const })),
+    ...dmarc.findings.map(finding => ({ ...finding, check: 'dmarc' as const })),
+    ...mtaSts.findings.map(finding => ({ ...finding, check: 'mta_sts' as const })),
+    ...tlsRpt.findings.map(finding => ({ ...finding, check: 'tls_rpt' as const })),
+    ...bimi.findings.map(finding => ({ ...finding, check: 'bimi' as const })),
+  ];
+
+  return { domain, spf, dmarc, mtaSts, tlsRpt, bimi, findings, checkedAt: new Date().toISOString() };
+}
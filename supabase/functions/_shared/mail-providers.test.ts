@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PROVIDER_RULES, fingerprintProvider } from './mail-providers.ts';
+
+const fingerprint = (domain: string, mxHosts: string[]) => fingerprintProvider(domain, mxHosts, DEFAULT_PROVIDER_RULES);
+
+describe('fingerprintProvider', () => {
+  it('tells consumer Gmail from Google Workspace on the same MX hosts', () => {
+    expect(fingerprint('gmail.com', ['gmail-smtp-in.l.google.com'])?.name).toBe('Gmail');
+    expect(fingerprint('googlemail.com', ['gmail-smtp-in.l.google.com'])?.name).toBe('Gmail');
+    expect(fingerprint('acme.com', ['aspmx.l.google.com'])?.name).toBe('Google Workspace');
+  });
+
+  it('prefers the longest matching suffix', () => {
+    expect(fingerprint('hotmail.com', ['hotmail-com.olc.protection.outlook.com'])?.name).toBe('Outlook.com');
+    expect(fingerprint('acme.com', ['acme-com.mail.protection.outlook.com'])?.name).toBe('Microsoft 365');
+  });
+
+  it('reports mail hosts inside the domain as self-hosted', () => {
+    expect(fingerprint('acme.com', ['mx.acme.com'])).toMatchObject({ name: 'Self-hosted', kind: 'self_hosted' });
+  });
+});
@@ -0,0 +1,114 @@
+// Mail provider fingerprinting: MX hostnames are matched against mail_provider_rules (falling back
+// to the bundled rules below) to tell hosted mailboxes such as Google Workspace from filtering
+// gateways such as Proofpoint, whose RCPT answers say nothing about the mailbox behind them.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+
+export type MailProviderKind = 'mailbox' | 'gateway' | 'self_hosted' | 'unknown';
+
+export interface MailProviderRule {
+  provider: string;
+  kind: 'mailbox' | 'gateway';
+  mx_suffix: string;
+  accepts_all: boolean; // accepts every RCPT TO, so an accepted recipient proves nothing
+  // Only applies to this mail domain; consumer Gmail shares its MX hosts with Google Workspace
+  domain?: string | null;
+}
+
+export interface MailProvider {
+  name: string;
+  kind: MailProviderKind;
+  acceptsAll: boolean;
+  matchedHost?: string;
+}
+
+// Kept in step with the seed rows in the mail_provider_rules migration
+export const DEFAULT_PROVIDER_RULES: MailProviderRule[] = [
+  { provider: 'Gmail', kind: 'mailbox', mx_suffix: 'google.com', accepts_all: false, domain: 'gmail.com' },
+  { provider: 'Gmail', kind: 'mailbox', mx_suffix: 'google.com', accepts_all: false, domain: 'googlemail.com' },
+  { provider: 'Google Workspace', kind: 'mailbox', mx_suffix: 'google.com', accepts_all: false },
+  { provider: 'Google Workspace', kind: 'mailbox', mx_suffix: 'googlemail.com', accepts_all: false },
+  { provider: 'Microsoft 365', kind: 'mailbox', mx_suffix: 'mail.protection.outlook.com', accepts_all: false },
+  { provider: 'Outlook.com', kind: 'mailbox', mx_suffix: 'olc.protection.outlook.com', accepts_all: false },
+  { provider: 'Zoho Mail', kind: 'mailbox', mx_suffix: 'zoho.com', accepts_all: false },
+  { provider: 'Zoho Mail', kind: 'mailbox', mx_suffix: 'zoho.eu', accepts_all: false },
+  { provider: 'Zoho Mail', kind: 'mailbox', mx_suffix: 'zoho.in', accepts_all: false },
+  { provider: 'Zoho Mail', kind: 'mailbox', mx_suffix: 'zohomail.com', accepts_all: false },
+  { provider: 'Yahoo', kind: 'mailbox', mx_suffix: 'yahoodns.net', accepts_all: true },
+  { provider: 'iCloud Mail', kind: 'mailbox', mx_suffix: 'mail.icloud.com', accepts_all: false },
+  { provider: 'Fastmail', kind: 'mailbox', mx_suffix: 'messagingengine.com', accepts_all: false },
+  { provider: 'Proton Mail', kind: 'mailbox', mx_suffix: 'protonmail.ch', accepts_all: false },
+  { provider: 'Yandex Mail', kind: 'mailbox', mx_suffix: 'yandex.net', accepts_all: false },
+  { provider: 'Mail.ru', kind: 'mailbox', mx_suffix: 'mail.ru', accepts_all: false },
+  { provider: 'Rackspace Email', kind: 'mailbox', mx_suffix: 'emailsrvr.com', accepts_all: false },
+  { provider: 'GoDaddy', kind: 'mailbox', mx_suffix: 'secureserver.net', accepts_all: false },
+  { provider: 'IONOS', kind: 'mailbox', mx_suffix: 'kundenserver.de', accepts_all: false },
+  { provider: 'IONOS', kind: 'mailbox', mx_suffix: 'ionos.com', accepts_all: false },
+  { provider: 'OVHcloud', kind: 'mailbox', mx_suffix: 'ovh.net', accepts_all: false },
+  { provider: 'Amazon WorkMail', kind: 'mailbox', mx_suffix: 'amazonaws.com', accepts_all: false },
+  { provider: 'Proofpoint', kind: 'gateway', mx_suffix: 'pphosted.com', accepts_all: true },
+  { provider: 'Proofpoint Essentials', kind: 'gateway', mx_suffix: 'ppe-hosted.com', accepts_all: true },
+  { provider: 'Mimecast', kind: 'gateway', mx_suffix: 'mimecast.com', accepts_all: true },
+  { provider: 'Barracuda', kind: 'gateway', mx_suffix: 'barracudanetworks.com', accepts_all: true },
+  { provider: 'Cisco Secure Email', kind: 'gateway', mx_suffix: 'iphmx.com', accepts_all: true },
+  { provider: 'Trend Micro', kind: 'gateway', mx_suffix: 'trendmicro.com', accepts_all: true },
+  { provider: 'Trend Micro', kind: 'gateway', mx_suffix: 'trendmicro.eu', accepts_all: true },
+  { provider: 'Sophos', kind: 'gateway', mx_suffix: 'hydra.sophos.com', accepts_all: true },
+  { provider: 'Symantec Email Security', kind: 'gateway', mx_suffix: 'messagelabs.com', accepts_all: true },
+  { provider: 'Forcepoint', kind: 'gateway', mx_suffix: 'mailcontrol.com', accepts_all: true },
+  { provider: 'SpamExperts', kind: 'gateway', mx_suffix: 'spamexperts.com', accepts_all: true },
+  { provider: 'SpamExperts', kind: 'gateway', mx_suffix: 'spamexperts.eu', accepts_all: true },
+  { provider: 'Hornetsecurity', kind: 'gateway', mx_suffix: 'hornetsecurity.com', accepts_all: true },
+];
+
+const RULES_TTL_MS = 10 * 60 * 1000;
+
+let cached: { expiresAt: number; rules: Promise<MailProviderRule[]> } | null = null;
+
+// Rules are shared per isolate; if the table cannot be read the bundled rules are used instead
+export function loadProviderRules(supabase: SupabaseClient): Promise<MailProviderRule[]> {
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.rules;
+  }
+
+  const rules = (async () => {
+    const { data, error } = await supabase
+      .from('mail_provider_rules')
+      .select('provider, kind, mx_suffix, accepts_all, domain');
+    if (error) throw error;
+    return data && data.length > 0 ? data as MailProviderRule[] : DEFAULT_PROVIDER_RULES;
+  })().catch(error => {
+    console.error('Error loading mail provider rules, using bundled rules:', error);
+    cached = null;
+    return DEFAULT_PROVIDER_RULES;
+  });
+  cached = { expiresAt: Date.now() + RULES_TTL_MS, rules };
+  return rules;
+}
+
+function hostMatches(host: string, suffix: string): boolean {
+  return host === suffix || host.endsWith(`.${suffix}`);
+}
+
+// Classify a domain by its MX hosts, most preferred first. A rule for this very domain wins (gmail.com
+// over Google Workspace), then the longest matching suffix, so a specific rule
+// (olc.protection.outlook.com) beats a general one.
+export function fingerprintProvider(domain: string, mxHosts: string[], rules: MailProviderRule[]): MailProvider | undefined {
+  if (mxHosts.length === 0) return undefined;
+
+  for (const host of mxHosts) {
+    const rule = rules
+      .filter(candidate => !candidate.domain || candidate.domain.toLowerCase() === domain.toLowerCase())
+      .filter(candidate => hostMatches(host, candidate.mx_suffix.toLowerCase()))
+      .sort((a, b) => Number(!!b.domain) - Number(!!a.domain) || b.mx_suffix.length - a.mx_suffix.length)[0];
+    if (rule) {
+      return { name: rule.provider, kind: rule.kind, acceptsAll: rule.accepts_all, matchedHost: host };
+    }
+  }
+
+  // Mail hosts inside the domain itself are run by the organisation
+  if (mxHosts.some(host => hostMatches(host, domain))) {
+    return { name: 'Self-hosted', kind: 'self_hosted', acceptsAll: false, matchedHost: mxHosts[0] };
+  }
+
+  return { name: 'Other', kind: 'unknown', acceptsAll: false, matchedHost: mxHosts[0] };
+}
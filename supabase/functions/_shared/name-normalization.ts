@@ -0,0 +1,139 @@
+// Turns a name as a person writes it ("José", "Müller-Lüdenscheidt", "van der Berg", "O'Brien") into
+// the spellings a mail administrator is likely to have used for their address. Every spelling comes
+// back as a variant with a penalty, so callers can rank the plain ASCII form above the alternatives.
+// No runtime dependencies beyond the bundled nickname dictionary.
+import { nicknamesFor } from './nicknames.ts';
+
+export type NameVariantKind =
+  | 'primary' // accents dropped, spaces, hyphens and apostrophes removed: mullerludenscheidt
+  | 'expanded' // umlauts spelled out: mueller
+  | 'hyphenated' // hyphens kept: muller-ludenscheidt
+  | 'apostrophe' // apostrophe kept: o'brien
+  | 'without_particles' // nobiliary particles dropped: van der berg -> berg
+  | 'first_part' // first piece of a compound name: jean-luc -> jean
+  | 'last_part' // last piece of a compound surname: muller-ludenscheidt -> ludenscheidt
+  | 'nickname'; // common short form of a given name: william -> bill
+
+export interface NameVariant {
+  value: string;
+  kinds: NameVariantKind[]; // one spelling can combine several, e.g. expanded + first_part
+  penalty: number;
+}
+
+export type NameRole = 'first' | 'last';
+
+// Letters that Unicode decomposition does not reduce to a base letter plus accents
+const SPECIAL_LETTERS: Record<string, string> = {
+  'ß': 'ss', 'ø': 'o', 'æ': 'ae', 'œ': 'oe', 'ł': 'l', 'đ': 'd', 'ð': 'd',
+  'þ': 'th', 'ı': 'i', 'ħ': 'h', 'ŋ': 'n', 'ŧ': 't',
+};
+
+// Spelled-out forms used where the accented letter is not available (German, Scandinavian)
+const EXPANDED_LETTERS: Record<string, string> = {
+  'ä': 'ae', 'ö': 'oe', 'ü': 'ue', 'ø': 'oe', 'å': 'aa',
+};
+
+// Surname prefixes that addresses often leave out: van der Berg -> berg, de la Cruz -> cruz
+const PARTICLES = new Set([
+  'van', 'von', 'der', 'den', 'de', 'del', 'della', 'di', 'da', 'du', 'la', 'le', 'les',
+  'des', 'dos', 'das', 'do', 'ter', 'ten', 'zu', 'af', 'bin', 'ibn', 'al', 'el',
+]);
+
+const APOSTROPHE = /['’ʼ`´]/;
+const APOSTROPHES = /['’ʼ`´]/g;
+
+const PENALTIES: Record<NameVariantKind, number> = {
+  primary: 0,
+  expanded: 3,
+  hyphenated: 5,
+  apostrophe: 8,
+  without_particles: 5,
+  first_part: 10,
+  last_part: 10,
+  nickname: 15,
+};
+
+function transliterate(text: string, expand: boolean): string {
+  let result = '';
+  for (const char of text.toLowerCase()) {
+    if (expand && EXPANDED_LETTERS[char]) {
+      result += EXPANDED_LETTERS[char];
+    } else if (SPECIAL_LETTERS[char]) {
+      result += SPECIAL_LETTERS[char];
+    } else {
+      result += char.normalize('NFD').replace(/\p{M}/gu, '');
+    }
+  }
+  return result;
+}
+
+// Keeps letters and digits plus whichever separators the variant preserves
+function clean(text: string, keep: { hyphen?: boolean; apostrophe?: boolean } = {}): string {
+  const allowed = `a-z0-9${keep.hyphen ? '\\-' : ''}${keep.apostrophe ? "'" : ''}`;
+  return text
+    .replace(APOSTROPHES, "'")
+    .replace(new RegExp(`[^${allowed}]`, 'g'), '');
+}
+
+export function nameVariants(raw: string, role: NameRole): NameVariant[] {
+  const variants = new Map<string, NameVariant>();
+  const add = (value: string, kinds: NameVariantKind[]) => {
+    if (!value) return;
+    const penalty = kinds.reduce((sum, kind) => sum + PENALTIES[kind], 0);
+    const current = variants.get(value);
+    if (!current || current.penalty > penalty) {
+      variants.set(value, { value, kinds, penalty });
+    }
+  };
+
+  const original = raw.trim().replace(/\s+/g, ' ');
+  if (!original) return [];
+
+  const spellings: { words: string[]; kinds: NameVariantKind[] }[] = [
+    { words: transliterate(original, false).split(' '), kinds: [] },
+  ];
+  const expanded = transliterate(original, true);
+  if (expanded !== transliterate(original, false)) {
+    spellings.push({ words: expanded.split(' '), kinds: ['expanded'] });
+  }
+
+  for (const { words, kinds } of spellings) {
+    const joined = words.join('');
+    add(clean(joined), kinds.length > 0 ? kinds : ['primary']);
+
+    if (role === 'first') {
+      for (const nickname of nicknamesFor(clean(joined))) {
+        add(nickname, [...kinds, 'nickname']);
+      }
+    }
+
+    if (joined.includes('-')) {
+      add(clean(joined, { hyphen: true }), [...kinds, 'hyphenated']);
+    }
+    if (APOSTROPHE.test(joined)) {
+      add(clean(joined, { apostrophe: true }), [...kinds, 'apostrophe']);
+    }
+
+    // Particles only ever lead a surname, and dropping them must leave something behind
+    let core = words;
+    if (role === 'last') {
+      const firstCore = words.findIndex(word => !PARTICLES.has(clean(word)));
+      if (firstCore > 0) {
+        core = words.slice(firstCore);
+        add(clean(core.join('')), [...kinds, 'without_particles']);
+      }
+    }
+
+    // Compound names: Jean-Luc, Mary Ann, Müller-Lüdenscheidt, García Márquez
+    const pieces = core.flatMap(word => word.split('-')).map(piece => clean(piece)).filter(Boolean);
+    if (pieces.length > 1) {
+      add(pieces[0], [...kinds, 'first_part']);
+      // A given name is known by its first piece; a surname by either
+      if (role === 'last') {
+        add(pieces[pieces.length - 1], [...kinds, 'last_part']);
+      }
+    }
+  }
+
+  return [...variants.values()].sort((a, b) => a.penalty - b.penalty);
+}
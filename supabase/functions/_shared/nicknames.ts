@@ -0,0 +1,69 @@
+// Common short forms of first names, for the addresses people pick over their formal name
+// (William -> bill, will; Katherine -> kate). Keys and values are spelled the way nameVariants
+// produces a primary spelling: lowercase ASCII letters only. No runtime dependencies.
+
+const NICKNAMES: Record<string, string[]> = {
+  abigail: ['abby'],
+  alexander: ['alex'],
+  alexandra: ['alex', 'sasha'],
+  andrew: ['andy', 'drew'],
+  anthony: ['tony'],
+  barbara: ['barb'],
+  benjamin: ['ben'],
+  catherine: ['kate', 'cathy'],
+  charles: ['charlie', 'chuck'],
+  christina: ['tina', 'chris'],
+  christine: ['chris'],
+  christopher: ['chris'],
+  daniel: ['dan', 'danny'],
+  david: ['dave'],
+  deborah: ['deb', 'debbie'],
+  donald: ['don'],
+  dorothy: ['dot'],
+  edward: ['ed', 'ted'],
+  elizabeth: ['liz', 'beth', 'betty'],
+  frederick: ['fred'],
+  gregory: ['greg'],
+  harold: ['harry'],
+  henry: ['hank', 'harry'],
+  jacob: ['jake'],
+  james: ['jim', 'jimmy'],
+  jennifer: ['jen', 'jenny'],
+  jessica: ['jess'],
+  jonathan: ['jon'],
+  joseph: ['joe'],
+  joshua: ['josh'],
+  katherine: ['kate', 'kathy', 'katie'],
+  kathryn: ['kate', 'kathy'],
+  kenneth: ['ken'],
+  lawrence: ['larry'],
+  margaret: ['maggie', 'meg', 'peggy'],
+  matthew: ['matt'],
+  michael: ['mike'],
+  nathaniel: ['nate', 'nathan'],
+  nicholas: ['nick'],
+  patricia: ['pat', 'trish'],
+  patrick: ['pat'],
+  peter: ['pete'],
+  rebecca: ['becky', 'becca'],
+  richard: ['rick', 'rich', 'dick'],
+  robert: ['rob', 'bob', 'bobby'],
+  ronald: ['ron'],
+  samantha: ['sam'],
+  samuel: ['sam'],
+  stephanie: ['steph'],
+  stephen: ['steve'],
+  steven: ['steve'],
+  susan: ['sue'],
+  theodore: ['ted', 'theo'],
+  thomas: ['tom', 'tommy'],
+  timothy: ['tim'],
+  victoria: ['vicky', 'tori'],
+  william: ['bill', 'will', 'billy'],
+  zachary: ['zach'],
+};
+
+// Short forms for a first name, most common first; empty when the name has none
+export function nicknamesFor(firstName: string): string[] {
+  return NICKNAMES[firstName] ?? [];
+}
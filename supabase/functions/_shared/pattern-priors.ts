@@ -0,0 +1,215 @@
+// Pattern priors learned from our own outcomes: how often an address built with a pattern turned out
+// to be real. Crawl samples and delivery-confirmed candidates count as successes, bounces as failures.
+// Evidence is aggregated globally, per TLD and per domain, and each level is smoothed toward the one
+// above it, so a domain with two observations mostly follows its TLD and the global rate.
+// Stored in pattern_priors and recomputed by the 'priors' job; generation reads them when ranking.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { parseEmailPattern } from './email-pattern.ts';
+import { enqueueJob } from './jobs.ts';
+
+export type PriorScope = 'global' | 'tld' | 'domain';
+
+export interface PatternObservation {
+  domain: string;
+  pattern: string;
+  successes: number;
+  failures: number;
+}
+
+export interface PatternPrior {
+  scope: PriorScope;
+  scope_key: string; // '' for global, the TLD, or the domain
+  pattern: string;
+  successes: number;
+  failures: number;
+  prior: number; // smoothed success rate, 0..1
+}
+
+// Rate assumed before any evidence: neither more nor less likely than not
+export const NEUTRAL_PRIOR = 0.5;
+
+// Pseudo-observations borrowed from the parent level; a level needs about this much evidence of its
+// own before it outweighs its parent
+const SMOOTHING_STRENGTH = 5;
+
+// One large domain's crawl should not decide the global rate on its own
+const CRAWL_SAMPLE_CAP = 10;
+
+const PAGE_SIZE = 1000;
+
+export function topLevelDomain(domain: string): string {
+  return domain.slice(domain.lastIndexOf('.') + 1);
+}
+
+function smooth(successes: number, failures: number, parent: number): number {
+  return (successes + SMOOTHING_STRENGTH * parent) / (successes + failures + SMOOTHING_STRENGTH);
+}
+
+// Aggregates observations into one prior per pattern at every level that has evidence for it
+export function computePatternPriors(observations: PatternObservation[]): PatternPrior[] {
+  const totals = new Map<string, { scope: PriorScope; key: string; pattern: string; successes: number; failures: number }>();
+  const tally = (scope: PriorScope, key: string, { pattern, successes, failures }: PatternObservation) => {
+    const id = `${scope}|${key}|${pattern}`;
+    const total = totals.get(id) ?? { scope, key, pattern, successes: 0, failures: 0 };
+    total.successes += successes;
+    total.failures += failures;
+    totals.set(id, total);
+  };
+
+  for (const observation of observations) {
+    tally('global', '', observation);
+    tally('tld', topLevelDomain(observation.domain), observation);
+    tally('domain', observation.domain, observation);
+  }
+
+  const priorOf = new Map<string, number>();
+  const priors: PatternPrior[] = [];
+  // Parents before children: global, then TLDs, then domains
+  for (const scope of ['global', 'tld', 'domain'] as PriorScope[]) {
+    for (const total of totals.values()) {
+      if (total.scope !== scope) continue;
+
+      const parentId = scope === 'global' ? null
+        : scope === 'tld' ? `global||${total.pattern}`
+        : `tld|${topLevelDomain(total.key)}|${total.pattern}`;
+      const parent = parentId ? priorOf.get(parentId) ?? NEUTRAL_PRIOR : NEUTRAL_PRIOR;
+      const prior = smooth(total.successes, total.failures, parent);
+
+      priorOf.set(`${scope}|${total.key}|${total.pattern}`, prior);
+      priors.push({
+        scope,
+        scope_key: total.key,
+        pattern: total.pattern,
+        successes: total.successes,
+        failures: total.failures,
+        prior,
+      });
+    }
+  }
+
+  return priors;
+}
+
+// Reads every row a query returns, a page at a time (the API caps a response at 1000 rows)
+async function fetchAll<T>(query: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await query(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+}
+
+// Only patterns built from a name say anything about a naming convention
+function isNamePattern(source: string | null): source is string {
+  if (!source) return false;
+  const parsed = parseEmailPattern(source);
+  return parsed.ok !== false && parsed.parts.length > 0;
+}
+
+async function loadObservations(supabase: SupabaseClient): Promise<PatternObservation[]> {
+  const observations: PatternObservation[] = [];
+
+  const crawled = await fetchAll<{ domain: string; pattern: string; sample_count: number | null }>((from, to) =>
+    supabase.from('email_patterns').select('domain, pattern, sample_count').order('id').range(from, to)
+  );
+  for (const row of crawled) {
+    if (!isNamePattern(row.pattern)) continue;
+    const samples = Math.min(Math.max(row.sample_count ?? 0, 1), CRAWL_SAMPLE_CAP);
+    observations.push({ domain: row.domain.toLowerCase(), pattern: row.pattern, successes: samples, failures: 0 });
+  }
+
+  const outcomes = await fetchAll<{ email_address: string; canonical_email: string | null; email_pattern: string | null; verification_status: string }>((from, to) =>
+    supabase
+      .from('email_candidates')
+      .select('email_address, canonical_email, email_pattern, verification_status')
+      .in('verification_status', ['delivery_confirmed', 'bounced'])
+      .order('id')
+      .range(from, to)
+  );
+  // The same address tested twice is still one outcome
+  const seen = new Set<string>();
+  for (const row of outcomes) {
+    if (!isNamePattern(row.email_pattern)) continue;
+    const address = row.canonical_email ?? row.email_address.toLowerCase();
+    const id = `${address}|${row.email_pattern}`;
+    if (seen.has(id)) continue;
+    seen.add(id);
+
+    const confirmed = row.verification_status === 'delivery_confirmed';
+    observations.push({
+      domain: address.slice(address.lastIndexOf('@') + 1),
+      pattern: row.email_pattern,
+      successes: confirmed ? 1 : 0,
+      failures: confirmed ? 0 : 1,
+    });
+  }
+
+  return observations;
+}
+
+// Rebuilds pattern_priors from scratch: rows are upserted, then anything the run did not write
+// (evidence that has since disappeared) is removed
+export async function recomputePatternPriors(supabase: SupabaseClient) {
+  const computedAt = new Date().toISOString();
+  const observations = await loadObservations(supabase);
+  const priors = computePatternPriors(observations);
+
+  for (let i = 0; i < priors.length; i += PAGE_SIZE) {
+    const rows = priors.slice(i, i + PAGE_SIZE).map(prior => ({ ...prior, computed_at: computedAt }));
+    const { error } = await supabase
+      .from('pattern_priors')
+      .upsert(rows, { onConflict: 'scope,scope_key,pattern' });
+    if (error) throw error;
+  }
+
+  const { error: staleError } = await supabase
+    .from('pattern_priors')
+    .delete()
+    .lt('computed_at', computedAt);
+  if (staleError) throw staleError;
+
+  console.log(`Recomputed ${priors.length} pattern priors from ${observations.length} observations`);
+  return { observations: observations.length, priors: priors.length };
+}
+
+// The most specific learned prior for each pattern at a domain (domain, else TLD, else global)
+export async function loadPatternPriors(supabase: SupabaseClient, domain: string): Promise<Map<string, number>> {
+  const tld = topLevelDomain(domain);
+  const { data, error } = await supabase
+    .from('pattern_priors')
+    .select('scope, pattern, prior')
+    .or(`scope.eq.global,and(scope.eq.tld,scope_key.eq."${tld}"),and(scope.eq.domain,scope_key.eq."${domain}")`);
+
+  const priors = new Map<string, number>();
+  if (error) {
+    // Ranking falls back to the fixed priorities
+    console.error('Error fetching pattern priors:', error);
+    return priors;
+  }
+
+  const specificity: Record<PriorScope, number> = { global: 0, tld: 1, domain: 2 };
+  const scopeOf = new Map<string, PriorScope>();
+  for (const row of (data ?? []) as { scope: PriorScope; pattern: string; prior: number }[]) {
+    const current = scopeOf.get(row.pattern);
+    if (!current || specificity[current] < specificity[row.scope]) {
+      scopeOf.set(row.pattern, row.scope);
+      priors.set(row.pattern, Number(row.prior));
+    }
+  }
+  return priors;
+}
+
+// Queues a recompute unless one is already waiting; new evidence arriving meanwhile is picked up by it
+export async function schedulePatternPriors(supabase: SupabaseClient) {
+  const { count, error } = await supabase
+    .from('jobs')
+    .select('id', { count: 'exact', head: true })
+    .eq('type', 'priors')
+    .eq('status', 'queued');
+
+  if (error) throw error;
+  if (count) return;
+  await enqueueJob(supabase, 'priors', {});
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { organizationalDomain, publicSuffixLength } from './public-suffix.ts';
+
+describe('organizationalDomain', () => {
+  it.each([
+    ['acme.com', 'acme.com'],
+    ['mail.acme.com', 'acme.com'],
+    ['acme.co.uk', 'acme.co.uk'],
+    ['sub.example.co.uk', 'example.co.uk'],
+    ['a.b.acme.com.au', 'acme.com.au'],
+    ['mail.acme.ne.jp', 'acme.ne.jp'],
+    ['co.uk', 'co.uk'],
+  ])('%s -> %s', (domain, expected) => {
+    expect(organizationalDomain(domain)).toBe(expected);
+  });
+});
+
+describe('publicSuffixLength', () => {
+  it('treats a second-level label only under a country TLD as part of the suffix', () => {
+    expect(publicSuffixLength('acme.co.uk')).toBe(2);
+    expect(publicSuffixLength('acme.co.com')).toBe(1);
+    expect(publicSuffixLength('shop.acme.de')).toBe(1);
+  });
+});
@@ -0,0 +1,19 @@
+// Public suffixes approximated without shipping the full Public Suffix List: the TLD, plus a common
+// second-level label under a two-letter country TLD (co.uk, com.au, ne.jp). Enough to find the
+// registrable part of a mail domain; dependency-free so the browser build can share it.
+
+// Second-level labels under which country TLDs register names (acme.co.uk, acme.com.au)
+const SECOND_LEVEL_LABELS = ['co', 'com', 'net', 'org', 'ac', 'gov', 'edu', 'ne', 'or'];
+
+// Number of trailing labels that form the public suffix: 2 for acme.co.uk, 1 for acme.com
+export function publicSuffixLength(domain: string): number {
+  const labels = domain.split('.');
+  const countryTld = labels[labels.length - 1].length === 2;
+  return labels.length > 2 && countryTld && SECOND_LEVEL_LABELS.includes(labels[labels.length - 2]) ? 2 : 1;
+}
+
+// The organizational domain (RFC 7489 section 3.2): the public suffix plus one label, so
+// mail.acme.co.uk -> acme.co.uk
+export function organizationalDomain(domain: string): string {
+  return domain.split('.').slice(-(publicSuffixLength(domain) + 1)).join('.');
+}
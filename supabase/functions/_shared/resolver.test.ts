@@ -0,0 +1,153 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createResolver, createZoneBackend, nativeBackend, type DnsBackend, type FakeZone } from './resolver.ts';
+
+const ZONE: FakeZone = {
+  'corp.test': {
+    MX: [
+      { preference: 20, exchange: 'mx2.corp.test' },
+      { preference: 10, exchange: 'mx1.corp.test' },
+    ],
+    TXT: ['v=spf1 -all'],
+  },
+  'nomail.test': { MX: [{ preference: 0, exchange: '' }] },
+  'implicit.test': { A: ['192.0.2.10'] },
+  'parked.test': { TXT: ['parked'] },
+};
+
+// Counts the queries that reach the zone, to observe caching
+function countingBackend(backend: DnsBackend) {
+  const calls: string[] = [];
+  return {
+    calls,
+    backend: {
+      name: backend.name,
+      query: (name, type) => {
+        calls.push(`${type} ${name}`);
+        return backend.query(name, type);
+      },
+    } as DnsBackend,
+  };
+}
+
+function failingBackend(name: string, failOn: (type: string) => boolean = () => true): DnsBackend {
+  const zone = createZoneBackend(ZONE);
+  return {
+    name,
+    query: (domain, type) => (failOn(type) ? Promise.reject(new Error('SERVFAIL')) : zone.query(domain, type)),
+  };
+}
+
+describe('lookupMailHosts', () => {
+  const resolver = createResolver({ backends: [createZoneBackend(ZONE)] });
+
+  it('returns the MX hosts sorted by preference', async () => {
+    expect(await resolver.lookupMailHosts('Corp.Test.')).toEqual({
+      domain: 'corp.test',
+      exists: true,
+      hosts: [
+        { preference: 10, exchange: 'mx1.corp.test' },
+        { preference: 20, exchange: 'mx2.corp.test' },
+      ],
+      implicit: false,
+      nullMx: false,
+    });
+  });
+
+  it('reports a null MX with no hosts', async () => {
+    expect(await resolver.lookupMailHosts('nomail.test')).toMatchObject({ exists: true, hosts: [], nullMx: true });
+  });
+
+  it('falls back to the domain itself when it has an address but no MX', async () => {
+    expect(await resolver.lookupMailHosts('implicit.test')).toMatchObject({
+      exists: true,
+      hosts: [{ preference: 0, exchange: 'implicit.test' }],
+      implicit: true,
+    });
+  });
+
+  it('reports an existing domain without MX or address as having no hosts', async () => {
+    expect(await resolver.lookupMailHosts('parked.test')).toMatchObject({ exists: true, hosts: [], implicit: false });
+  });
+
+  it('reports an unknown domain as not existing', async () => {
+    expect(await resolver.lookupMailHosts('missing.test')).toMatchObject({ exists: false, hosts: [] });
+  });
+
+  it('fails when the address lookup after an empty MX answer fails', async () => {
+    const broken = createResolver({ backends: [failingBackend('broken', type => type === 'A')] });
+    await expect(broken.lookupMailHosts('parked.test')).rejects.toThrow(/DNS lookup failed for A parked\.test/);
+  });
+});
+
+describe('query', () => {
+  it('tries the next backend when one fails', async () => {
+    const resolver = createResolver({ backends: [failingBackend('first'), createZoneBackend(ZONE)] });
+    const answer = await resolver.query('corp.test', 'TXT');
+    expect(answer).toMatchObject({ status: 'ok', records: ['v=spf1 -all'], source: 'zone' });
+  });
+
+  it('reports every backend when all of them fail', async () => {
+    const resolver = createResolver({ backends: [failingBackend('first'), failingBackend('second')] });
+    await expect(resolver.query('corp.test', 'MX')).rejects.toThrow('first: SERVFAIL; second: SERVFAIL');
+  });
+
+  it('caches answers for their TTL', async () => {
+    let time = 0;
+    const { backend, calls } = countingBackend(createZoneBackend(ZONE, 60));
+    const resolver = createResolver({ backends: [backend], now: () => time });
+
+    await resolver.query('corp.test', 'MX');
+    time = 59_000;
+    await resolver.query('CORP.test', 'MX');
+    expect(calls).toEqual(['MX corp.test']);
+
+    time = 61_000;
+    await resolver.query('corp.test', 'MX');
+    expect(calls).toHaveLength(2);
+  });
+
+  it('caps how long a negative answer is cached', async () => {
+    let time = 0;
+    const { backend, calls } = countingBackend(createZoneBackend(ZONE, 3600));
+    const resolver = createResolver({ backends: [backend], now: () => time, negativeTtl: 120 });
+
+    await resolver.query('missing.test', 'MX');
+    time = 121_000;
+    await resolver.query('missing.test', 'MX');
+    expect(calls).toHaveLength(2);
+  });
+
+  it('does not cache failures', async () => {
+    const { backend, calls } = countingBackend(failingBackend('broken'));
+    const resolver = createResolver({ backends: [backend] });
+
+    await expect(resolver.query('corp.test', 'MX')).rejects.toThrow();
+    await expect(resolver.query('corp.test', 'MX')).rejects.toThrow();
+    expect(calls).toHaveLength(2);
+  });
+});
+
+describe('nativeBackend', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  function resolveDnsFails(message: string) {
+    const error = new Error(message);
+    error.name = 'NotFound';
+    vi.stubGlobal('Deno', { resolveDns: () => Promise.reject(error) });
+  }
+
+  it('tells NXDOMAIN from an empty answer', async () => {
+    resolveDnsFails('no record found for Query { name: Name("missing.test."), query_type: MX }, response_code: NXDomain');
+    expect((await nativeBackend.query('missing.test', 'MX')).status).toBe('nxdomain');
+
+    resolveDnsFails('no record found for Query { name: Name("parked.test."), query_type: MX }, response_code: NoError');
+    expect((await nativeBackend.query('parked.test', 'MX')).status).toBe('nodata');
+  });
+
+  it('leaves a not-found error without a response code to the next backend', async () => {
+    resolveDnsFails('no record found');
+    await expect(nativeBackend.query('parked.test', 'MX')).rejects.toThrow('no record found');
+  });
+});
@@ -0,0 +1,252 @@
+// DNS resolver shared by the edge functions. Tries Deno.resolveDns first and falls back to
+// DNS-over-HTTPS, caching answers for their TTL. Backends are injectable so lookups can run
+// against a fake zone (see createZoneBackend).
+
+export type DnsRecordType = 'A' | 'AAAA' | 'CNAME' | 'MX' | 'TXT';
+
+export interface MxRecord {
+  preference: number;
+  exchange: string; // lowercase, without the trailing dot; '' for a null MX
+}
+
+interface RecordData {
+  A: string;
+  AAAA: string;
+  CNAME: string;
+  MX: MxRecord;
+  TXT: string; // character-strings of one record joined together
+}
+
+export interface DnsAnswer<T extends DnsRecordType = DnsRecordType> {
+  status: 'ok' | 'nxdomain' | 'nodata';
+  records: RecordData[T][];
+  ttl: number; // seconds
+  source: string;
+}
+
+export interface DnsBackend {
+  name: string;
+  query<T extends DnsRecordType>(name: string, type: T): Promise<DnsAnswer<T>>;
+}
+
+export interface MailHostsLookup {
+  domain: string;
+  exists: boolean;
+  hosts: MxRecord[]; // sorted by preference
+  implicit: boolean; // no MX, so the domain's own A/AAAA acts as MX (RFC 5321 section 5.1)
+  nullMx: boolean; // "MX 0 ." - the domain accepts no mail (RFC 7505)
+}
+
+export interface Resolver {
+  query<T extends DnsRecordType>(name: string, type: T): Promise<DnsAnswer<T>>;
+  lookupMailHosts(domain: string): Promise<MailHostsLookup>;
+}
+
+export interface ResolverOptions {
+  backends?: DnsBackend[];
+  minTtl?: number;
+  maxTtl?: number;
+  negativeTtl?: number;
+  now?: () => number;
+}
+
+// Used when a backend cannot report TTLs (Deno.resolveDns does not)
+const DEFAULT_TTL = 300;
+
+const TYPE_CODES: Record<DnsRecordType, number> = { A: 1, CNAME: 5, MX: 15, TXT: 16, AAAA: 28 };
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/\.$/, '');
+}
+
+// Deno.resolveDns throws NotFound for both NXDOMAIN and an empty answer; the response code is only
+// in the message ("... response_code: NXDomain"). Returns null when the message does not say.
+function notFoundStatus(error: unknown): 'nxdomain' | 'nodata' | null {
+  if (!(error instanceof Error)) return null;
+  if (/nxdomain/i.test(error.message)) return 'nxdomain';
+  if (/noerror/i.test(error.message)) return 'nodata';
+  return null;
+}
+
+export const nativeBackend: DnsBackend = {
+  name: 'native',
+  async query<T extends DnsRecordType>(name: string, type: T): Promise<DnsAnswer<T>> {
+    try {
+      const raw: unknown[] = await Deno.resolveDns(name, type);
+      const records = raw.map(record => {
+        if (type === 'MX') {
+          const mx = record as { preference: number; exchange: string };
+          return { preference: mx.preference, exchange: normalizeName(mx.exchange) };
+        }
+        if (type === 'TXT') return (record as string[]).join('');
+        return normalizeName(record as string);
+      }) as RecordData[T][];
+      return { status: records.length > 0 ? 'ok' : 'nodata', records, ttl: DEFAULT_TTL, source: 'native' };
+    } catch (error) {
+      const status = notFoundStatus(error);
+      if (status) {
+        return { status, records: [], ttl: DEFAULT_TTL, source: 'native' };
+      }
+      // Includes a NotFound that does not say which: the DoH backends can tell them apart
+      throw error;
+    }
+  },
+};
+
+// Split a presentation-format TXT value ("part one" "part two") into its joined text
+function parseTxtData(data: string): string {
+  const parts = data.match(/"((?:[^"\\]|\\.)*)"/g);
+  if (!parts) return data;
+  return parts.map(part => part.slice(1, -1).replace(/\\(.)/g, '$1')).join('');
+}
+
+export function dohBackend(name: string, endpoint: string, timeoutMs = 5000): DnsBackend {
+  return {
+    name,
+    async query<T extends DnsRecordType>(domain: string, type: T): Promise<DnsAnswer<T>> {
+      const url = `${endpoint}?name=${encodeURIComponent(domain)}&type=${type}`;
+      const response = await fetch(url, {
+        headers: { 'Accept': 'application/dns-json' },
+        signal: AbortSignal.timeout(timeoutMs)
+      });
+
+      if (!response.ok) {
+        throw new Error(`${name} DoH returned HTTP ${response.status}`);
+      }
+
+      const data = await response.json();
+      // 0 = NOERROR, 3 = NXDOMAIN; anything else (SERVFAIL, REFUSED) is a resolver failure
+      if (data.Status === 3) {
+        const ttl = data.Authority?.[0]?.TTL ?? DEFAULT_TTL;
+        return { status: 'nxdomain', records: [], ttl, source: name };
+      }
+      if (data.Status !== 0) {
+        throw new Error(`${name} DoH returned DNS status ${data.Status}`);
+      }
+
+      const answers: { type: number; TTL: number; data: string }[] = (data.Answer ?? [])
+        .filter((answer: { type: number }) => answer.type === TYPE_CODES[type]);
+
+      const records = answers.map(answer => {
+        if (type === 'MX') {
+          const [preference, exchange = ''] = answer.data.trim().split(/\s+/);
+          return { preference: parseInt(preference, 10), exchange: normalizeName(exchange) };
+        }
+        if (type === 'TXT') return parseTxtData(answer.data);
+        return normalizeName(answer.data);
+      }) as RecordData[T][];
+
+      const ttl = answers.length > 0
+        ? Math.min(...answers.map(answer => answer.TTL))
+        : data.Authority?.[0]?.TTL ?? DEFAULT_TTL;
+
+      return { status: records.length > 0 ? 'ok' : 'nodata', records, ttl, source: name };
+    },
+  };
+}
+
+export type FakeZone = Record<string, Partial<{ [T in DnsRecordType]: RecordData[T][] }>>;
+
+// In-memory zone for tests: names missing from the zone are NXDOMAIN
+export function createZoneBackend(zone: FakeZone, ttl = DEFAULT_TTL): DnsBackend {
+  const records = new Map(Object.entries(zone).map(([name, data]) => [normalizeName(name), data]));
+  return {
+    name: 'zone',
+    query<T extends DnsRecordType>(name: string, type: T): Promise<DnsAnswer<T>> {
+      const entry = records.get(normalizeName(name));
+      if (!entry) {
+        return Promise.resolve({ status: 'nxdomain', records: [], ttl, source: 'zone' });
+      }
+      const answer = (entry[type] ?? []) as RecordData[T][];
+      return Promise.resolve({ status: answer.length > 0 ? 'ok' : 'nodata', records: answer, ttl, source: 'zone' });
+    },
+  };
+}
+
+export const DEFAULT_BACKENDS: DnsBackend[] = [
+  nativeBackend,
+  dohBackend('Cloudflare', 'https://cloudflare-dns.com/dns-query'),
+  dohBackend('Google', 'https://dns.google/resolve'),
+];
+
+export function createResolver(options: ResolverOptions = {}): Resolver {
+  const backends = options.backends ?? DEFAULT_BACKENDS;
+  const minTtl = options.minTtl ?? 30;
+  const maxTtl = options.maxTtl ?? 3600;
+  const negativeTtl = options.negativeTtl ?? 300;
+  const now = options.now ?? Date.now;
+
+  // Pending lookups are cached too, so concurrent callers share one query
+  const cache = new Map<string, { expiresAt: number; answer: Promise<DnsAnswer> }>();
+
+  const lookup = async <T extends DnsRecordType>(name: string, type: T): Promise<DnsAnswer<T>> => {
+    const errors: string[] = [];
+    for (const backend of backends) {
+      try {
+        return await backend.query(name, type);
+      } catch (error) {
+        errors.push(`${backend.name}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    throw new Error(`DNS lookup failed for ${type} ${name} (${errors.join('; ')})`);
+  };
+
+  const query = <T extends DnsRecordType>(rawName: string, type: T): Promise<DnsAnswer<T>> => {
+    const name = normalizeName(rawName);
+    const key = `${type}:${name}`;
+    const cached = cache.get(key);
+    if (cached && cached.expiresAt > now()) {
+      return cached.answer as Promise<DnsAnswer<T>>;
+    }
+
+    const answer = lookup(name, type);
+    const entry = { expiresAt: Infinity, answer: answer as Promise<DnsAnswer> };
+    cache.set(key, entry);
+
+    answer.then(
+      result => {
+        const ttl = result.status === 'ok' ? result.ttl : Math.min(result.ttl, negativeTtl);
+        entry.expiresAt = now() + Math.min(Math.max(ttl, minTtl), maxTtl) * 1000;
+      },
+      () => cache.delete(key)
+    );
+
+    return answer;
+  };
+
+  const lookupMailHosts = async (rawDomain: string): Promise<MailHostsLookup> => {
+    const domain = normalizeName(rawDomain);
+    const mx = await query(domain, 'MX');
+
+    if (mx.status === 'nxdomain') {
+      return { domain, exists: false, hosts: [], implicit: false, nullMx: false };
+    }
+
+    if (mx.records.length > 0) {
+      const nullMx = mx.records.some(record => record.exchange === '');
+      const hosts = nullMx
+        ? []
+        : [...mx.records].sort((a, b) => a.preference - b.preference);
+      return { domain, exists: true, hosts, implicit: false, nullMx };
+    }
+
+    // No MX records: fall back to the domain itself if it has an address. A failed address lookup
+    // fails the whole lookup, since without it we cannot tell "no mail host" from "DNS is down".
+    const [a, aaaa] = await Promise.all([query(domain, 'A'), query(domain, 'AAAA')]);
+    const hasAddress = a.records.length > 0 || aaaa.records.length > 0;
+
+    return {
+      domain,
+      // The empty MX answer already shows the name exists
+      exists: true,
+      hosts: hasAddress ? [{ preference: 0, exchange: domain }] : [],
+      implicit: hasAddress,
+      nullMx: false,
+    };
+  };
+
+  return { query, lookupMailHosts };
+}
+
+// Shared per isolate so every request served by it benefits from the cache
+export const resolver = createResolver();
@@ -0,0 +1,15 @@
+// Shared mailboxes that belong to a function rather than a person (info@, sales@, ...).
+// Bundled seed for the 'role_account' rows of disposable_domains, which drive detection (see
+// domain-lists.ts); generate-email-candidates also uses this list as its role-based patterns.
+export const ROLE_ACCOUNT_LOCAL_PARTS = [
+  'info', 'contact', 'admin', 'support', 'hello', 'team',
+  'sales', 'marketing', 'hr', 'office', 'help', 'service'
+];
+
+export function normalizeRoleLocalPart(localPart: string): string {
+  return localPart.trim().toLowerCase().replace(/@$/, '');
+}
+
+export function isRoleAccount(roleAccounts: Set<string>, localPart: string): boolean {
+  return roleAccounts.has(normalizeRoleLocalPart(localPart));
+}
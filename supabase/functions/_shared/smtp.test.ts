@@ -0,0 +1,292 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import net from 'node:net';
+import { parseSmtpReply, probeCatchAll, probeRecipients, type SmtpProbeOptions, type SmtpTransport } from './smtp.ts';
+
+// A scripted SMTP server on a local port. Each handler returns the reply lines for a command;
+// returning null leaves the command unanswered (to exercise timeouts).
+interface MockSmtpScript {
+  greeting?: string[] | null;
+  ehlo?: string[];
+  starttls?: string[];
+  mailFrom?: string[];
+  rcpt?: (address: string) => string[];
+}
+
+interface MockSmtpServer {
+  port: number;
+  commands: string[];
+  close(): Promise<void>;
+}
+
+const servers: MockSmtpServer[] = [];
+
+afterEach(async () => {
+  await Promise.all(servers.splice(0).map(server => server.close()));
+});
+
+async function startMockSmtp(script: MockSmtpScript = {}): Promise<MockSmtpServer> {
+  const commands: string[] = [];
+  const sockets = new Set<net.Socket>();
+
+  const server = net.createServer(socket => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    const send = (lines: string[] | null | undefined) => {
+      if (lines) socket.write(lines.map(line => `${line}\r\n`).join(''));
+    };
+
+    send(script.greeting === undefined ? ['220 mock.test ESMTP'] : script.greeting);
+
+    let buffer = '';
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf8');
+      let newline: number;
+      while ((newline = buffer.indexOf('\r\n')) >= 0) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 2);
+        commands.push(line);
+
+        const verb = line.split(/[ :]/)[0].toUpperCase();
+        if (verb === 'EHLO') send(script.ehlo ?? ['250-mock.test', '250 SIZE 10240000']);
+        else if (verb === 'HELO') send(['250 mock.test']);
+        else if (verb === 'STARTTLS') send(script.starttls ?? ['220 2.0.0 Ready to start TLS']);
+        else if (verb === 'MAIL') send(script.mailFrom ?? ['250 2.1.0 Ok']);
+        else if (verb === 'RCPT') {
+          const address = /<(.*)>/.exec(line)?.[1] ?? '';
+          send(script.rcpt ? script.rcpt(address) : ['250 2.1.5 Ok']);
+        } else if (verb === 'QUIT') {
+          send(['221 2.0.0 Bye']);
+          socket.end();
+        } else send(['502 5.5.2 Command not recognized']);
+      }
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const mock = {
+    port: (server.address() as net.AddressInfo).port,
+    commands,
+    close: () => new Promise<void>(resolve => {
+      sockets.forEach(socket => socket.destroy());
+      server.close(() => resolve());
+    }),
+  };
+  servers.push(mock);
+  return mock;
+}
+
+// Deno.Conn over a Node socket, enough for the probe's reader and writer
+function socketConn(socket: net.Socket): Deno.Conn {
+  const chunks: Buffer[] = [];
+  let ended = false;
+  let wake: (() => void) | null = null;
+  socket.on('data', chunk => { chunks.push(chunk); wake?.(); });
+  socket.on('end', () => { ended = true; wake?.(); });
+  socket.on('close', () => { ended = true; wake?.(); });
+
+  return {
+    async read(target: Uint8Array) {
+      while (chunks.length === 0 && !ended) {
+        await new Promise<void>(resolve => { wake = resolve; });
+        wake = null;
+      }
+      const chunk = chunks.shift();
+      if (!chunk) return null;
+      const size = Math.min(chunk.length, target.length);
+      target.set(chunk.subarray(0, size));
+      if (size < chunk.length) chunks.unshift(chunk.subarray(size));
+      return size;
+    },
+    write: (data: Uint8Array) => new Promise<number>((resolve, reject) =>
+      socket.write(data, error => (error ? reject(error) : resolve(data.length)))
+    ),
+    close: () => { socket.destroy(); },
+  } as unknown as Deno.Conn;
+}
+
+// Routes each MX hostname to a local port; hosts without a route refuse the connection.
+// STARTTLS keeps the plain socket, which is all the dialogue needs to see.
+function localTransport(routes: Record<string, number>, tlsUpgrades: string[] = []): SmtpTransport {
+  return {
+    connect: (hostname) => new Promise((resolve, reject) => {
+      const port = routes[hostname];
+      if (!port) {
+        reject(new Error(`Connection refused: ${hostname}`));
+        return;
+      }
+      const socket = net.connect(port, '127.0.0.1');
+      socket.once('connect', () => resolve(socketConn(socket)));
+      socket.once('error', reject);
+    }),
+    startTls: (conn, hostname) => {
+      tlsUpgrades.push(hostname);
+      return Promise.resolve(conn);
+    },
+  };
+}
+
+function options(transport: SmtpTransport, overrides: SmtpProbeOptions = {}): SmtpProbeOptions {
+  return { port: 25, heloHost: 'probe.test', mailFrom: 'probe@probe.test', timeoutMs: 1000, transport, ...overrides };
+}
+
+describe('parseSmtpReply', () => {
+  it('joins a multi-line reply and extracts the enhanced status code', () => {
+    const reply = parseSmtpReply(['550-5.1.1 The email account does not exist.', '550 5.1.1 Please check the address.']);
+    expect(reply).toMatchObject({
+      code: 550,
+      enhancedStatus: '5.1.1',
+      text: 'The email account does not exist. Please check the address.',
+    });
+  });
+
+  it('rejects a line without a reply code', () => {
+    expect(() => parseSmtpReply(['hello'])).toThrow(/Malformed SMTP reply/);
+  });
+});
+
+describe('probeRecipients against a mock server', () => {
+  it('runs the full dialogue and returns one reply per recipient', async () => {
+    const server = await startMockSmtp({
+      rcpt: address => (address.startsWith('john') ? ['250 2.1.5 Ok'] : ['550 5.1.1 No such user']),
+    });
+
+    const result = await probeRecipients(['mx.test'], ['john@corp.test', 'nobody@corp.test'], options(localTransport({ 'mx.test': server.port })));
+
+    expect(result.error).toBeUndefined();
+    expect(result.connected).toBe(true);
+    expect(result.host).toBe('mx.test');
+    expect(result.greeting?.code).toBe(220);
+    expect(result.mailFrom?.code).toBe(250);
+    expect(result.recipients.map(reply => reply?.code)).toEqual([250, 550]);
+    expect(result.recipients[1]?.enhancedStatus).toBe('5.1.1');
+    expect(server.commands).toEqual([
+      'EHLO probe.test',
+      'MAIL FROM:<probe@probe.test>',
+      'RCPT TO:<john@corp.test>',
+      'RCPT TO:<nobody@corp.test>',
+      'QUIT',
+    ]);
+    expect(result.transcript).toContain('C: RCPT TO:<john@corp.test>');
+    expect(result.transcript).toContain('S: 550 5.1.1 No such user');
+  });
+
+  it('negotiates STARTTLS when the server offers it and greets again', async () => {
+    const server = await startMockSmtp({ ehlo: ['250-mock.test', '250-STARTTLS', '250 8BITMIME'] });
+    const upgrades: string[] = [];
+
+    const result = await probeRecipients(['mx.test'], ['john@corp.test'], options(localTransport({ 'mx.test': server.port }, upgrades)));
+
+    expect(result.tls).toBe(true);
+    expect(upgrades).toEqual(['mx.test']);
+    expect(server.commands.slice(0, 3)).toEqual(['EHLO probe.test', 'STARTTLS', 'EHLO probe.test']);
+  });
+
+  it('skips STARTTLS when it is disabled', async () => {
+    const server = await startMockSmtp({ ehlo: ['250-mock.test', '250 STARTTLS'] });
+
+    const result = await probeRecipients(['mx.test'], ['john@corp.test'], options(localTransport({ 'mx.test': server.port }), { startTls: false }));
+
+    expect(result.tls).toBe(false);
+    expect(server.commands).not.toContain('STARTTLS');
+  });
+
+  it('falls back to HELO when EHLO is not supported', async () => {
+    const server = await startMockSmtp({ ehlo: ['502 5.5.1 Unrecognized command'] });
+
+    const result = await probeRecipients(['mx.test'], ['john@corp.test'], options(localTransport({ 'mx.test': server.port })));
+
+    expect(result.recipients[0]?.code).toBe(250);
+    expect(server.commands.slice(0, 2)).toEqual(['EHLO probe.test', 'HELO probe.test']);
+  });
+
+  it('reports a refused session as a protocol error', async () => {
+    const server = await startMockSmtp({ greeting: ['554 5.7.1 No service for you'] });
+
+    const result = await probeRecipients(['mx.test'], ['john@corp.test'], options(localTransport({ 'mx.test': server.port })));
+
+    expect(result.connected).toBe(true);
+    expect(result.errorKind).toBe('protocol');
+    expect(result.error).toMatch(/Server refused session/);
+    expect(result.recipients).toEqual([]);
+  });
+
+  it('reports a rejected sender without sending RCPT TO', async () => {
+    const server = await startMockSmtp({ mailFrom: ['553 5.7.1 Sender address rejected'] });
+
+    const result = await probeRecipients(['mx.test'], ['john@corp.test'], options(localTransport({ 'mx.test': server.port })));
+
+    expect(result.errorKind).toBe('protocol');
+    expect(result.error).toMatch(/Sender rejected/);
+    expect(server.commands.some(command => command.startsWith('RCPT'))).toBe(false);
+  });
+
+  it('times out when the server never greets', async () => {
+    const server = await startMockSmtp({ greeting: null });
+
+    const result = await probeRecipients(['mx.test'], ['john@corp.test'], options(localTransport({ 'mx.test': server.port }), { timeoutMs: 100 }));
+
+    expect(result.errorKind).toBe('timeout');
+    expect(result.error).toMatch(/greeting/);
+  });
+
+  it('tries the next MX when a host cannot be reached', async () => {
+    const server = await startMockSmtp();
+
+    const result = await probeRecipients(['mx1.test', 'mx2.test'], ['john@corp.test'], options(localTransport({ 'mx2.test': server.port })));
+
+    expect(result.host).toBe('mx2.test');
+    expect(result.recipients[0]?.code).toBe(250);
+    expect(result.transcript).toContain('* Connecting to mx1.test:25');
+    expect(result.transcript).toContain('* Connection refused: mx1.test');
+  });
+
+  it('stops at the first MX that gives a permanent answer', async () => {
+    const first = await startMockSmtp({ rcpt: () => ['550 5.1.1 No such user'] });
+    const second = await startMockSmtp();
+
+    const result = await probeRecipients(
+      ['mx1.test', 'mx2.test'],
+      ['nobody@corp.test'],
+      options(localTransport({ 'mx1.test': first.port, 'mx2.test': second.port }))
+    );
+
+    expect(result.host).toBe('mx1.test');
+    expect(second.commands).toEqual([]);
+  });
+
+  it('only tries as many hosts as maxHosts allows', async () => {
+    const result = await probeRecipients(['mx1.test', 'mx2.test', 'mx3.test'], ['john@corp.test'], options(localTransport({}), { maxHosts: 2 }));
+
+    expect(result.connected).toBe(false);
+    expect(result.errorKind).toBe('connection');
+    expect(result.transcript.filter(line => line.startsWith('* Connecting'))).toHaveLength(2);
+  });
+});
+
+describe('probeCatchAll against a mock server', () => {
+  const cases: [string, string[], boolean | null][] = [
+    ['accepts the random recipient', ['250 2.1.5 Ok'], true],
+    ['rejects it as an unknown user', ['550 5.1.1 No such user'], false],
+    ['greylists it', ['450 4.2.0 Greylisted, try again later'], null],
+    ['blocks it by policy', ['550 5.7.1 Client host rejected'], null],
+    ['rejects it without an enhanced status', ['550 Requested action not taken'], null],
+    ['rejects our sender inside RCPT', ['550 5.1.7 Bad sender mailbox'], null],
+  ];
+
+  it.each(cases)('when the server %s', async (_label, reply, catchAll) => {
+    const server = await startMockSmtp({ rcpt: () => reply });
+
+    const result = await probeCatchAll('corp.test', ['mx.test'], options(localTransport({ 'mx.test': server.port })));
+
+    expect(result.catchAll).toBe(catchAll);
+    expect(result.probeAddress).toMatch(/^nx-[0-9a-f]{20}@corp\.test$/);
+    expect(result.response).toBe(reply[0]);
+  });
+
+  it('is inconclusive when no server answers', async () => {
+    const result = await probeCatchAll('corp.test', ['mx.test'], options(localTransport({})));
+
+    expect(result.catchAll).toBeNull();
+    expect(result.response).toMatch(/Connection refused/);
+  });
+});
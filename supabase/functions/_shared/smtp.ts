@@ -0,0 +1,292 @@
+// Minimal SMTP client used to probe mailboxes without sending a message.
+// A probe runs EHLO, optional STARTTLS, MAIL FROM and RCPT TO, then QUITs.
+
+export interface SmtpReply {
+  code: number;
+  enhancedStatus?: string; // RFC 3463, e.g. '5.1.1'
+  text: string;
+  lines: string[];
+}
+
+export type SmtpErrorKind = 'connection' | 'timeout' | 'protocol' | 'tls';
+
+export interface SmtpProbeResult {
+  host?: string;
+  connected: boolean;
+  tls: boolean;
+  greeting?: SmtpReply;
+  mailFrom?: SmtpReply;
+  // One reply per requested recipient, in the same order (missing if the dialogue stopped early)
+  recipients: (SmtpReply | undefined)[];
+  error?: string;
+  errorKind?: SmtpErrorKind;
+  transcript: string[];
+}
+
+// Injectable so the dialogue can be exercised against a local mock server
+export interface SmtpTransport {
+  connect(hostname: string, port: number): Promise<Deno.Conn>;
+  startTls(conn: Deno.Conn, hostname: string): Promise<Deno.Conn>;
+}
+
+export interface SmtpProbeOptions {
+  port?: number;
+  heloHost?: string;
+  mailFrom?: string;
+  timeoutMs?: number;
+  startTls?: boolean;
+  maxHosts?: number;
+  transport?: SmtpTransport;
+}
+
+const denoTransport: SmtpTransport = {
+  connect: (hostname, port) => Deno.connect({ hostname, port }),
+  startTls: (conn, hostname) => Deno.startTls(conn as Deno.TcpConn, { hostname }),
+};
+
+class SmtpProbeError extends Error {
+  constructor(message: string, public kind: SmtpErrorKind) {
+    super(message);
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, label: string): Promise<T> {
+  let timer: number | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new SmtpProbeError(`Timed out waiting for ${label}`, 'timeout')), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+const REPLY_LINE = /^(\d{3})([ -])(.*)$/;
+const ENHANCED_STATUS = /^([245]\.\d{1,3}\.\d{1,3})\s*/;
+
+// Parse the lines of a (possibly multi-line) reply into code, enhanced status and text
+export function parseSmtpReply(lines: string[]): SmtpReply {
+  const first = REPLY_LINE.exec(lines[0] ?? '');
+  if (!first) {
+    throw new SmtpProbeError(`Malformed SMTP reply: ${lines[0] ?? ''}`, 'protocol');
+  }
+
+  const texts = lines.map(line => REPLY_LINE.exec(line)?.[3] ?? line);
+  const enhanced = ENHANCED_STATUS.exec(texts[0]);
+
+  return {
+    code: parseInt(first[1], 10),
+    enhancedStatus: enhanced?.[1],
+    text: texts.map(t => t.replace(ENHANCED_STATUS, '')).join(' ').trim(),
+    lines,
+  };
+}
+
+export function formatSmtpReply(reply: SmtpReply): string {
+  return [reply.code, reply.enhancedStatus, reply.text].filter(Boolean).join(' ');
+}
+
+// Line-oriented reader/writer over a connection that records every line exchanged
+function createSession(initialConn: Deno.Conn, timeoutMs: number, transcript: string[]) {
+  const encoder = new TextEncoder();
+  let decoder = new TextDecoder();
+  let conn = initialConn;
+  let buffer = '';
+
+  const readLine = async (): Promise<string> => {
+    while (true) {
+      const newline = buffer.indexOf('\n');
+      if (newline >= 0) {
+        const line = buffer.slice(0, newline).replace(/\r$/, '');
+        buffer = buffer.slice(newline + 1);
+        return line;
+      }
+
+      const chunk = new Uint8Array(4096);
+      const read = await conn.read(chunk);
+      if (read === null) {
+        throw new SmtpProbeError('Connection closed by server', 'connection');
+      }
+      buffer += decoder.decode(chunk.subarray(0, read), { stream: true });
+    }
+  };
+
+  const readReply = async (label: string): Promise<SmtpReply> => {
+    const lines: string[] = [];
+    while (true) {
+      const line = await withTimeout(readLine(), timeoutMs, label);
+      transcript.push(`S: ${line}`);
+      lines.push(line);
+      const match = REPLY_LINE.exec(line);
+      if (!match || match[2] === ' ') break;
+    }
+    return parseSmtpReply(lines);
+  };
+
+  const command = async (line: string, label = line.split(' ')[0]): Promise<SmtpReply> => {
+    transcript.push(`C: ${line}`);
+    await withTimeout(conn.write(encoder.encode(`${line}\r\n`)), timeoutMs, label);
+    return readReply(label);
+  };
+
+  const upgrade = (tlsConn: Deno.Conn) => {
+    conn = tlsConn;
+    buffer = '';
+    decoder = new TextDecoder();
+  };
+
+  const close = () => {
+    try {
+      conn.close();
+    } catch {
+      // Already closed
+    }
+  };
+
+  return { readReply, command, upgrade, close, get conn() { return conn; } };
+}
+
+async function probeHost(
+  host: string,
+  recipients: string[],
+  options: Required<Omit<SmtpProbeOptions, 'maxHosts'>>
+): Promise<SmtpProbeResult> {
+  const result: SmtpProbeResult = {
+    host,
+    connected: false,
+    tls: false,
+    recipients: [],
+    transcript: [],
+  };
+
+  let session: ReturnType<typeof createSession> | undefined;
+
+  try {
+    result.transcript.push(`* Connecting to ${host}:${options.port}`);
+    const conn = await withTimeout(options.transport.connect(host, options.port), options.timeoutMs, 'connection');
+    session = createSession(conn, options.timeoutMs, result.transcript);
+    result.connected = true;
+
+    result.greeting = await session.readReply('greeting');
+    if (result.greeting.code !== 220) {
+      throw new SmtpProbeError(`Server refused session: ${formatSmtpReply(result.greeting)}`, 'protocol');
+    }
+
+    let ehlo = await session.command(`EHLO ${options.heloHost}`);
+    if (ehlo.code !== 250) {
+      ehlo = await session.command(`HELO ${options.heloHost}`);
+      if (ehlo.code !== 250) {
+        throw new SmtpProbeError(`HELO rejected: ${formatSmtpReply(ehlo)}`, 'protocol');
+      }
+    }
+
+    const supportsStartTls = ehlo.lines.some(line => /^250[ -]STARTTLS\b/i.test(line));
+    if (options.startTls && supportsStartTls) {
+      const ready = await session.command('STARTTLS');
+      if (ready.code === 220) {
+        try {
+          const tlsConn = await withTimeout(options.transport.startTls(session.conn, host), options.timeoutMs, 'TLS handshake');
+          session.upgrade(tlsConn);
+          result.tls = true;
+          result.transcript.push('* TLS negotiated');
+        } catch (error) {
+          throw new SmtpProbeError(`TLS handshake failed: ${error instanceof Error ? error.message : error}`, 'tls');
+        }
+        await session.command(`EHLO ${options.heloHost}`);
+      }
+    }
+
+    result.mailFrom = await session.command(`MAIL FROM:<${options.mailFrom}>`, 'MAIL');
+    if (result.mailFrom.code >= 300) {
+      throw new SmtpProbeError(`Sender rejected: ${formatSmtpReply(result.mailFrom)}`, 'protocol');
+    }
+
+    for (const recipient of recipients) {
+      result.recipients.push(await session.command(`RCPT TO:<${recipient}>`, 'RCPT'));
+    }
+
+    try {
+      await session.command('QUIT');
+    } catch {
+      // Servers often drop the connection right after QUIT
+    }
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+    result.errorKind = error instanceof SmtpProbeError ? error.kind : 'connection';
+    result.transcript.push(`* ${result.error}`);
+  } finally {
+    session?.close();
+  }
+
+  return result;
+}
+
+// Probe the recipients against the MX hosts in order until one of them answers RCPT TO
+export async function probeRecipients(
+  mxHosts: string[],
+  recipients: string[],
+  options: SmtpProbeOptions = {}
+): Promise<SmtpProbeResult> {
+  const resolved = {
+    port: options.port ?? parseInt(Deno.env.get('SMTP_PROBE_PORT') ?? '25', 10),
+    heloHost: options.heloHost ?? Deno.env.get('SMTP_PROBE_HELO') ?? 'verify.localhost',
+    mailFrom: options.mailFrom ?? Deno.env.get('SMTP_PROBE_MAIL_FROM') ?? 'probe@verify.localhost',
+    timeoutMs: options.timeoutMs ?? 10000,
+    startTls: options.startTls ?? true,
+    transport: options.transport ?? denoTransport,
+  };
+
+  const transcript: string[] = [];
+  let last: SmtpProbeResult = { connected: false, tls: false, recipients: [], transcript };
+
+  for (const host of mxHosts.slice(0, options.maxHosts ?? 3)) {
+    const attempt = await probeHost(host, recipients, resolved);
+    transcript.push(...attempt.transcript);
+    last = { ...attempt, transcript };
+
+    // A host that answered every RCPT TO is authoritative; otherwise try the next MX
+    if (attempt.recipients.length === recipients.length && !attempt.error) break;
+    // A 4xx greeting or sender rejection on one MX may not apply to the others, so only
+    // stop early when the server gave a permanent answer to a recipient
+    if (attempt.recipients.some(reply => reply && reply.code >= 500)) break;
+  }
+
+  return last;
+}
+
+export interface CatchAllProbeResult {
+  // null when the answer to the random recipient proves neither: no answer, a temporary failure
+  // (greylisting) or a policy rejection
+  catchAll: boolean | null;
+  probeAddress: string;
+  response?: string;
+  transcript: string[];
+}
+
+// Only a "no such user" rejection (X.1.x, other than the sender-related 5.1.7 / 5.1.8) shows the
+// server checks recipients; a 4xx or a 5.7.x block of the probe says nothing about the mailbox
+function catchAllFromReply(reply: SmtpReply | undefined): boolean | null {
+  if (!reply) return null;
+  if (reply.code === 250 || reply.code === 251) return true;
+
+  const [statusClass, subject, detail] = (reply.enhancedStatus ?? '').split('.');
+  if (reply.code >= 500 && statusClass === '5' && subject === '1' && detail !== '7' && detail !== '8') {
+    return false;
+  }
+  return null;
+}
+
+// Ask the domain's MX to accept a recipient that cannot exist; accepting it means it accepts anything
+export async function probeCatchAll(
+  domain: string,
+  mxHosts: string[],
+  options: SmtpProbeOptions = {}
+): Promise<CatchAllProbeResult> {
+  const probeAddress = `nx-${crypto.randomUUID().replace(/-/g, '').slice(0, 20)}@${domain}`;
+  const probe = await probeRecipients(mxHosts, [probeAddress], options);
+  const reply = probe.recipients[0];
+
+  return {
+    catchAll: catchAllFromReply(reply),
+    probeAddress,
+    response: reply ? formatSmtpReply(reply) : probe.error,
+    transcript: probe.transcript,
+  };
+}
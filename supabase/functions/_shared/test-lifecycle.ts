@@ -0,0 +1,78 @@
+// Test lifecycle bookkeeping. Which status changes are allowed is enforced by the database
+// (enforce_test_status_transition); this module moves tests between states and records each run of
+// a phase in test_steps so the app can show where a test is and why it failed.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+
+export type TestStatus = 'pending' | 'generating' | 'verifying' | 'completed' | 'failed';
+export type TestStep = 'crawl' | 'generate' | 'rerank' | 'verify';
+
+// Returns whether the test moved; false when the update fails, including a transition the database
+// rejects, or when `from` is given and the test is not currently in that state
+export async function transitionTest(
+  supabase: SupabaseClient,
+  testId: string,
+  status: TestStatus,
+  { from }: { from?: TestStatus } = {}
+): Promise<boolean> {
+  let query = supabase
+    .from('tests')
+    .update({ status })
+    .eq('id', testId);
+  if (from) {
+    query = query.eq('status', from);
+  }
+
+  const { data, error } = await query.select('id');
+
+  if (error) {
+    console.error(`Error moving test ${testId} to ${status}:`, error);
+    return false;
+  }
+  return (data ?? []).length > 0;
+}
+
+// Step records are best effort: losing one must not fail the work it describes
+export async function startTestStep(
+  supabase: SupabaseClient,
+  testId: string,
+  step: TestStep,
+  details: Record<string, unknown> = {}
+): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('test_steps')
+    .insert({ test_id: testId, step, details })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error(`Error recording ${step} step for test ${testId}:`, error);
+    return null;
+  }
+  return data.id;
+}
+
+export async function finishTestStep(supabase: SupabaseClient, stepId: string | null, details: Record<string, unknown> = {}) {
+  if (!stepId) return;
+
+  const { error } = await supabase
+    .from('test_steps')
+    .update({ status: 'succeeded', details, finished_at: new Date().toISOString() })
+    .eq('id', stepId);
+
+  if (error) {
+    console.error(`Error finishing step ${stepId}:`, error);
+  }
+}
+
+export async function failTestStep(supabase: SupabaseClient, stepId: string | null, message: string) {
+  if (!stepId) return;
+
+  const { error } = await supabase
+    .from('test_steps')
+    .update({ status: 'failed', error_message: message, finished_at: new Date().toISOString() })
+    .eq('id', stepId);
+
+  if (error) {
+    console.error(`Error failing step ${stepId}:`, error);
+  }
+}
@@ -0,0 +1,93 @@
+// Verification results shared across tests, keyed by canonical address (see canonical-email.ts) and
+// kept for a time that depends on how settled the outcome is: a rejected mailbox stays rejected far
+// longer than an inconclusive probe stays inconclusive.
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import type { VerificationOutcome, VerificationStatus } from './verification-status.ts';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Deferred results are never cached: the retry worker owns them until they settle
+export const VERIFICATION_CACHE_TTL_MS: Record<VerificationStatus, number> = {
+  deliverable: 7 * DAY_MS,
+  undeliverable: 30 * DAY_MS,
+  accept_all: 3 * DAY_MS,
+  risky: 7 * DAY_MS,
+  unknown: 1 * HOUR_MS,
+  deferred: 0,
+};
+
+export interface CachedVerification<T extends VerificationOutcome> {
+  canonicalEmail: string;
+  result: T;
+  source: string;
+  verifiedAt: string;
+}
+
+// Reads in chunks so long candidate lists stay within URL limits
+const LOOKUP_CHUNK_SIZE = 100;
+
+export async function loadCachedVerifications<T extends VerificationOutcome>(
+  supabase: SupabaseClient,
+  canonicalEmails: string[]
+): Promise<Map<string, CachedVerification<T>>> {
+  const cached = new Map<string, CachedVerification<T>>();
+  const unique = [...new Set(canonicalEmails)];
+  const now = new Date().toISOString();
+
+  for (let i = 0; i < unique.length; i += LOOKUP_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('email_verifications')
+      .select('canonical_email, result, source, verified_at')
+      .in('canonical_email', unique.slice(i, i + LOOKUP_CHUNK_SIZE))
+      .gt('expires_at', now);
+
+    // A cache that cannot be read is a cache miss
+    if (error) {
+      console.error('Error loading cached verifications:', error);
+      continue;
+    }
+
+    for (const row of data ?? []) {
+      cached.set(row.canonical_email, {
+        canonicalEmail: row.canonical_email,
+        result: row.result as T,
+        source: row.source,
+        verifiedAt: row.verified_at,
+      });
+    }
+  }
+
+  return cached;
+}
+
+function isCacheable(result: VerificationOutcome): boolean {
+  return VERIFICATION_CACHE_TTL_MS[result.status] > 0 && !result.reasons.includes('verification_error');
+}
+
+export async function storeVerifications<T extends VerificationOutcome>(
+  supabase: SupabaseClient,
+  entries: { canonicalEmail: string; result: T }[],
+  source: string
+) {
+  const verifiedAt = new Date();
+  const rows = entries
+    .filter(entry => isCacheable(entry.result))
+    .map(({ canonicalEmail, result }) => ({
+      canonical_email: canonicalEmail,
+      status: result.status,
+      result,
+      source,
+      verified_at: verifiedAt.toISOString(),
+      expires_at: new Date(verifiedAt.getTime() + VERIFICATION_CACHE_TTL_MS[result.status]).toISOString(),
+    }));
+  if (rows.length === 0) return;
+
+  const { error } = await supabase
+    .from('email_verifications')
+    .upsert(rows, { onConflict: 'canonical_email' });
+
+  if (error) {
+    console.error('Error storing verification results:', error);
+  }
+}
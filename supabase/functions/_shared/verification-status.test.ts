@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { candidateVerificationUpdate, MAX_VERIFICATION_ATTEMPTS, type VerificationOutcome } from './verification-status.ts';
+
+const deliverable: VerificationOutcome = { isValid: true, status: 'deliverable', reasons: ['accepted'] };
+const deferred: VerificationOutcome = { isValid: false, status: 'deferred', reasons: ['greylisted'] };
+
+describe('candidateVerificationUpdate', () => {
+  it('keeps a status set from a real delivery', () => {
+    const stored = { delivery_confirmed: true };
+    const update = candidateVerificationUpdate(deliverable, {
+      verification_status: 'bounced',
+      verification_result: stored,
+      verification_attempts: 1,
+    });
+
+    expect(update).toMatchObject({ verification_status: 'bounced', verification_result: stored, verification_attempts: 2 });
+  });
+
+  it('counts deferrals on top of the stored attempts', () => {
+    const update = candidateVerificationUpdate(deferred, { verification_status: 'deferred', verification_attempts: 2 });
+
+    expect(update.verification_status).toBe('deferred');
+    expect(update.verification_attempts).toBe(3);
+    expect(update.next_retry_at).not.toBeNull();
+  });
+
+  it('gives up once the stored attempts run out', () => {
+    const update = candidateVerificationUpdate(deferred, {
+      verification_status: 'deferred',
+      verification_attempts: MAX_VERIFICATION_ATTEMPTS - 1,
+    });
+
+    expect(update.verification_status).toBe('unknown');
+    expect(update.verification_result).toMatchObject({ reasons: ['deferral_expired'] });
+  });
+});
@@ -0,0 +1,149 @@
+// Verification outcome model shared by the edge functions: the statuses a result can end in,
+// the machine-readable reasons behind them, and how a result is written to email_candidates.
+// Also holds the retry schedule for candidates whose mail server deferred the answer (greylisting).
+
+// 'deferred' is transient: it resolves to one of the others on retry, or to 'unknown' when it expires
+export type VerificationStatus = 'deliverable' | 'undeliverable' | 'accept_all' | 'risky' | 'unknown' | 'deferred';
+
+export type ReasonCode =
+  | 'accepted'
+  | 'invalid_syntax'
+  | 'invalid_for_provider'
+  | 'ip_literal'
+  | 'possible_typo'
+  | 'no_mx'
+  | 'null_mx'
+  | 'dns_error'
+  | 'mailbox_not_found'
+  | 'mailbox_disabled'
+  | 'mailbox_full'
+  | 'accept_all'
+  | 'provider_accepts_all'
+  | 'disposable'
+  | 'free_webmail'
+  | 'role_account'
+  | 'gibberish'
+  | 'smtp_blocked'
+  | 'smtp_rejected'
+  | 'smtp_timeout'
+  | 'smtp_unreachable'
+  | 'smtp_error'
+  | 'greylisted'
+  | 'deferral_expired'
+  | 'verification_error';
+
+export interface VerificationOutcome {
+  isValid: boolean;
+  status: VerificationStatus;
+  reasons: ReasonCode[];
+}
+
+// Reasons that make an otherwise accepted mailbox a poor target ('free_webmail', 'gibberish' and
+// 'possible_typo' are informational)
+const RISK_REASONS: ReasonCode[] = ['disposable', 'role_account', 'mailbox_full'];
+
+// Classify the reply to RCPT TO for the address being verified (RFC 5321 codes, RFC 3463 enhanced codes)
+export function classifyRecipientReply(code: number, enhancedStatus?: string): { status: VerificationStatus; reason: ReasonCode } {
+  if (code === 250 || code === 251) return { status: 'deliverable', reason: 'accepted' };
+  if (code >= 400 && code < 500) return { status: 'deferred', reason: 'greylisted' };
+
+  if (enhancedStatus) {
+    const [, subject, detail] = enhancedStatus.split('.');
+    // X.1.7 / X.1.8 are about our sender address, not the recipient
+    if (subject === '1' && detail !== '7' && detail !== '8') return { status: 'undeliverable', reason: 'mailbox_not_found' };
+    if (subject === '2' && detail === '1') return { status: 'undeliverable', reason: 'mailbox_disabled' };
+    if (subject === '2' && detail === '2') return { status: 'risky', reason: 'mailbox_full' };
+    if (subject === '7') return { status: 'unknown', reason: 'smtp_blocked' };
+  }
+
+  if (code === 550 || code === 551 || code === 553) return { status: 'undeliverable', reason: 'mailbox_not_found' };
+  if (code === 552) return { status: 'risky', reason: 'mailbox_full' };
+  return { status: 'unknown', reason: 'smtp_rejected' };
+}
+
+// Downgrade an accepted mailbox to risky when any risk reason applies
+export function applyRiskReasons(status: VerificationStatus, reasons: ReasonCode[]): VerificationStatus {
+  if (status === 'deliverable' && reasons.some(reason => RISK_REASONS.includes(reason))) {
+    return 'risky';
+  }
+  return status;
+}
+
+// Greylisting servers usually accept a retry after a few minutes; back off from there
+const RETRY_BASE_MS = 5 * 60 * 1000;
+const RETRY_MAX_DELAY_MS = 4 * 60 * 60 * 1000;
+export const MAX_VERIFICATION_ATTEMPTS = 6;
+export const DEFERRAL_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// When to retry after the given number of deferred attempts (1-based), with a little jitter
+export function nextRetryAt(attempts: number, from: Date = new Date()): Date {
+  const delay = Math.min(RETRY_BASE_MS * 3 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+  const jitter = Math.round(delay * 0.1 * Math.random());
+  return new Date(from.getTime() + delay + jitter);
+}
+
+// Statuses set from a real delivery, which outrank any later SMTP probe
+const DELIVERY_STATUSES = ['delivery_confirmed', 'bounced'];
+
+export interface StoredVerification {
+  verification_status?: string | null;
+  verification_result?: unknown;
+  verification_attempts?: number | null;
+  retry_expires_at?: string | null;
+}
+
+// Column updates for a candidate that just received a verification result
+export function candidateVerificationUpdate(result: VerificationOutcome, previous: StoredVerification = {}) {
+  const now = new Date();
+  const attempts = (previous.verification_attempts ?? 0) + 1;
+  const status = result.status;
+
+  if (previous.verification_status && DELIVERY_STATUSES.includes(previous.verification_status)) {
+    return {
+      verification_status: previous.verification_status,
+      verification_result: previous.verification_result ?? result,
+      verification_attempts: attempts,
+      next_retry_at: null,
+      retry_expires_at: null,
+      updated_at: now.toISOString(),
+    };
+  }
+
+  if (status !== 'deferred') {
+    return {
+      verification_status: status,
+      verification_result: result,
+      verification_attempts: attempts,
+      next_retry_at: null,
+      retry_expires_at: null,
+      updated_at: now.toISOString(),
+    };
+  }
+
+  const expiresAt = previous.retry_expires_at
+    ? new Date(previous.retry_expires_at)
+    : new Date(now.getTime() + DEFERRAL_WINDOW_MS);
+  const retryAt = nextRetryAt(attempts, now);
+
+  // Out of attempts or past the deferral window: give up without a verdict
+  if (attempts >= MAX_VERIFICATION_ATTEMPTS || retryAt > expiresAt) {
+    const reasons: ReasonCode[] = [...result.reasons.filter(reason => reason !== 'greylisted'), 'deferral_expired'];
+    return {
+      verification_status: 'unknown',
+      verification_result: { ...result, status: 'unknown', reasons },
+      verification_attempts: attempts,
+      next_retry_at: null,
+      retry_expires_at: expiresAt.toISOString(),
+      updated_at: now.toISOString(),
+    };
+  }
+
+  return {
+    verification_status: 'deferred',
+    verification_result: result,
+    verification_attempts: attempts,
+    next_retry_at: retryAt.toISOString(),
+    retry_expires_at: expiresAt.toISOString(),
+    updated_at: now.toISOString(),
+  };
+}
@@ -0,0 +1,84 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { analyzeMailAuth } from '../_shared/mail-auth.ts';
+import { parseDomain } from '../_shared/email-address.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { domain } = await req.json();
+
+    if (!domain || typeof domain !== 'string') {
+      return new Response(
+        JSON.stringify({ error: 'Domain is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // The domain ends up in DNS names, an HTTPS URL (the MTA-STS policy) and the report's key, so
+    // anything but a plain hostname is refused
+    const parsed = parseDomain(domain, { allowIpLiteral: false });
+    if (parsed.ok === false) {
+      return new Response(
+        JSON.stringify({ error: parsed.message, code: parsed.code }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log(`Analyzing mail setup for: ${parsed.domain}`);
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const report = await analyzeMailAuth(parsed.domain);
+    const errorCount = report.findings.filter(finding => finding.level === 'error').length;
+    const warningCount = report.findings.length - errorCount;
+
+    // Keep the latest snapshot per domain
+    const { error: storeError } = await supabase
+      .from('domain_auth_reports')
+      .upsert({
+        domain: report.domain,
+        spf: report.spf,
+        dmarc: report.dmarc,
+        mta_sts: report.mtaSts,
+        tls_rpt: report.tlsRpt,
+        bimi: report.bimi,
+        findings: report.findings,
+        error_count: errorCount,
+        warning_count: warningCount,
+        checked_at: report.checkedAt,
+      }, {
+        onConflict: 'domain'
+      });
+
+    if (storeError) {
+      console.error('Error storing domain auth report:', storeError);
+    }
+
+    console.log(`Mail setup for ${report.domain}: ${errorCount} errors, ${warningCount} warnings`);
+
+    return new Response(
+      JSON.stringify({ success: true, report }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error analyzing domain:', error);
+    return new Response(
+      JSON.stringify({ error: (error as Error).message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
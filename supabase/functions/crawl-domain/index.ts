@@ -1,13 +1,19 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { parseDomain, parseEmailAddress } from '../_shared/email-address.ts';
+import { canonicalizeEmail } from '../_shared/canonical-email.ts';
+import { enqueueJob, triggerJobWorker } from '../_shared/jobs.ts';
+import { schedulePatternPriors } from '../_shared/pattern-priors.ts';
+import { failTestStep, finishTestStep, startTestStep } from '../_shared/test-lifecycle.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-const EMAIL_REGEX = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g;
+// Loose scan for address-like tokens (including IDN and UTF-8); each match is then checked by the shared parser
+const EMAIL_CANDIDATE_REGEX = /[\p{L}\p{N}._%+'-]+@[\p{L}\p{N}.-]+\.[\p{L}\p{N}-]{2,}/gu;
 
 interface CrawlResult {
   emails: string[];
@@ -17,10 +23,13 @@ interface CrawlResult {
 
 // Extract emails from text content
 function extractEmails(text: string, domain: string): string[] {
-  const emails = text.match(EMAIL_REGEX) || [];
+  const target = parseDomain(domain);
+  if (!target.ok) return [];
+
+  const emails = text.match(EMAIL_CANDIDATE_REGEX) || [];
   return emails
-    .map(email => email.toLowerCase())
-    .filter(email => email.endsWith(`@${domain.toLowerCase()}`))
+    .map(email => parseEmailAddress(email))
+    .flatMap(parsed => parsed.ok && parsed.domain === target.domain ? [parsed.address.toLowerCase()] : [])
     .filter((email, index, arr) => arr.indexOf(email) === index); // Remove duplicates
 }
 
@@ -130,7 +139,9 @@ serve(async (req) => {
   }
 
   try {
-    const { domain } = await req.json();
+    // run: true is the job worker executing a queued crawl for an existing session;
+    // testId puts the crawl on that test's timeline
+    const { domain, crawlSessionId, testId = null, run = false } = await req.json();
 
     if (!domain) {
       return new Response(
@@ -147,6 +158,37 @@ serve(async (req) => {
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
 
+    if (run) {
+      if (!crawlSessionId) {
+        return new Response(
+          JSON.stringify({ error: 'Crawl session ID is required' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+      const stepId = testId ? await startTestStep(supabase, testId, 'crawl', { domain, crawlSessionId }) : null;
+      try {
+        const stats = await performCrawl(supabase, crawlSessionId, domain);
+        await finishTestStep(supabase, stepId, { domain, crawlSessionId, ...stats });
+        // The test was generated without these patterns; the worker re-ranks it in the same run
+        if (testId && stats.patterns_detected > 0) {
+          await enqueueJob(supabase, 'generate', { rerank: true }, { testId });
+        }
+        // New crawl samples feed the learned pattern priors; a missed recompute only delays them
+        if (stats.patterns_detected > 0) {
+          await schedulePatternPriors(supabase).catch(scheduleError =>
+            console.error('Error scheduling pattern prior recompute:', scheduleError)
+          );
+        }
+      } catch (error) {
+        await failTestStep(supabase, stepId, (error as Error).message);
+        throw error;
+      }
+      return new Response(
+        JSON.stringify({ success: true, crawlSessionId, status: 'completed' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     // Create crawl session
     const { data: crawlSession, error: sessionError } = await supabase
       .from('crawl_sessions')
@@ -166,8 +208,9 @@ serve(async (req) => {
       );
     }
 
-    // Start background crawling process
-    EdgeRuntime.waitUntil(performCrawl(supabase, crawlSession.id, domain));
+    // Crawl as a durable job so a lost isolate does not leave the session crawling forever
+    await enqueueJob(supabase, 'crawl', { domain, crawlSessionId: crawlSession.id }, { testId });
+    EdgeRuntime.waitUntil(triggerJobWorker(supabase));
 
     return new Response(
       JSON.stringify({ 
@@ -191,6 +234,12 @@ serve(async (req) => {
 async function performCrawl(supabase: any, crawlSessionId: string, domain: string) {
   try {
     console.log(`Performing crawl for domain: ${domain}`);
+
+    // A retried job restarts a session an earlier attempt marked failed
+    await supabase
+      .from('crawl_sessions')
+      .update({ status: 'crawling', error_message: null })
+      .eq('id', crawlSessionId);
     
     // Search for emails across the domain
     const crawlResults = await searchEmails(domain);
@@ -205,6 +254,7 @@ async function performCrawl(supabase: any, crawlSessionId: string, domain: strin
           await supabase.from('found_emails').upsert({
             domain,
             email_address: email,
+            canonical_email: canonicalizeEmail(email),
             source_url: result.source,
             source_type: result.type,
             found_date: new Date().toISOString()
@@ -259,7 +309,9 @@ async function performCrawl(supabase: any, crawlSessionId: string, domain: strin
       .eq('id', crawlSessionId);
     
     console.log(`Crawl completed for ${domain}: ${totalEmailsFound} emails, ${patternsStored} patterns`);
-    
+
+    return { emails_found: totalEmailsFound, patterns_detected: patternsStored, pages_crawled: crawlResults.length };
+
   } catch (error) {
     console.error('Error during crawl:', error);
     
@@ -272,5 +324,8 @@ async function performCrawl(supabase: any, crawlSessionId: string, domain: strin
         completed_at: new Date().toISOString()
       })
       .eq('id', crawlSessionId);
+
+    // Let the job worker retry it
+    throw error;
   }
 }
\ No newline at end of file
@@ -1,6 +1,15 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { ROLE_ACCOUNT_LOCAL_PARTS } from '../_shared/role-accounts.ts';
+import { isValidEmailAddress } from '../_shared/email-address.ts';
+import { checkLocalPart } from '../_shared/local-part-rules.ts';
+import { canonicalizeEmail } from '../_shared/canonical-email.ts';
+import { orderedName, parseEmailPattern, parseEmailPatterns, renderEmailPattern, type EmailPattern, type NameOrder, type PatternName } from '../_shared/email-pattern.ts';
+import { nameVariants, type NameVariant, type NameVariantKind } from '../_shared/name-normalization.ts';
+import { enqueueJob, triggerJobWorker } from '../_shared/jobs.ts';
+import { loadPatternPriors, NEUTRAL_PRIOR } from '../_shared/pattern-priors.ts';
+import { failTestStep, finishTestStep, startTestStep, transitionTest } from '../_shared/test-lifecycle.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -16,6 +25,8 @@ const HIGH_PRIORITY_PATTERNS = [
   '{first}',            // john
   '{last}',             // doe
   '{f}.{last}',         // j.doe
+  '{name1}.{name2}',    // kim.minjun when the family name is written first, otherwise john.doe again
+  '{name1}{name2}',     // kimminjun
 ];
 
 const MEDIUM_PRIORITY_PATTERNS = [
@@ -26,6 +37,9 @@ const MEDIUM_PRIORITY_PATTERNS = [
   '{f}_{last}',         // j_doe
   '{first}{l}',         // johnd
   '{last}{first}',      // doejohn
+  '{name1}_{name2}',    // kim_minjun
+  '{first}.{m}.{last}', // john.q.doe (only with a middle name)
+  '{f}{m}{last}',       // jqdoe
 ];
 
 const LOW_PRIORITY_PATTERNS = [
@@ -37,6 +51,9 @@ const LOW_PRIORITY_PATTERNS = [
   '{l}_{first}',        // d_john
   '{f}_{l}',            // j_d
   '{last}_{first}',     // doe_john
+  '{f}{last:7}',        // jdoeberm (systems that cap usernames at 8 characters)
+  '{first}{m}{last}',   // johnqdoe
+  '{first}.{middle}.{last}', // john.quincy.doe
   
   // Numbered variations (for duplicates)
   '{first}.{last}1',
@@ -44,140 +61,348 @@ const LOW_PRIORITY_PATTERNS = [
   '{f}{last}1',
 ];
 
-const ROLE_BASED_PATTERNS = [
-  // Generic business emails (verified to exist commonly)
-  'info', 'contact', 'admin', 'support', 'hello', 'team',
-  'sales', 'marketing', 'hr', 'office', 'help', 'service'
-];
+// Generic business emails (verified to exist commonly)
+const ROLE_BASED_PATTERNS = ROLE_ACCOUNT_LOCAL_PARTS;
+
+type RankingSource = 'default' | 'crawl' | 'user';
+
+interface RankedPattern {
+  pattern: EmailPattern;
+  priority: number;
+  rankingSource: RankingSource;
+}
+
+interface DetectedPattern {
+  pattern: string;
+  confidence: number;
+}
+
+// The spelling of the name a candidate was rendered from, stored in verification_result so the
+// results can say why an address such as bill.smith@ was suggested. kinds is empty for the name as entered.
+interface CandidateNameVariant {
+  first: string | null;
+  last: string | null;
+  kinds: NameVariantKind[];
+}
+
+interface GeneratedCandidate {
+  email: string;
+  pattern: string;
+  priority: number;
+  rankingSource: RankingSource;
+  nameVariant: CandidateNameVariant | null; // null for fixed mailboxes (info, sales)
+}
+
+// The bundled lists ship with the code, so one that does not parse is a bug: fail at startup
+function compileDefaultPatterns(sources: string[], priority: number): RankedPattern[] {
+  const { patterns, errors } = parseEmailPatterns(sources);
+  if (errors.length > 0) {
+    throw new Error(`Invalid default pattern "${errors[0].source}": ${errors[0].message}`);
+  }
+  return patterns.map(pattern => ({ pattern, priority, rankingSource: 'default' }));
+}
 
 // Combine all patterns with priority weighting
-const DEFAULT_EMAIL_PATTERNS = [
-  ...HIGH_PRIORITY_PATTERNS,
-  ...MEDIUM_PRIORITY_PATTERNS, 
-  ...LOW_PRIORITY_PATTERNS,
-  ...ROLE_BASED_PATTERNS
+const DEFAULT_EMAIL_PATTERNS: RankedPattern[] = [
+  ...compileDefaultPatterns(HIGH_PRIORITY_PATTERNS, 90),
+  ...compileDefaultPatterns(MEDIUM_PRIORITY_PATTERNS, 70),
+  ...compileDefaultPatterns(LOW_PRIORITY_PATTERNS, 50),
+  ...compileDefaultPatterns(ROLE_BASED_PATTERNS, 60),
 ];
 
-// Get detected patterns for a domain or use defaults
-async function getEmailPatterns(supabase: any, domain: string): Promise<string[]> {
-  try {
-    console.log(`Fetching detected patterns for domain: ${domain}`);
-    
-    const { data: patterns, error } = await supabase
-      .from('email_patterns')
-      .select('pattern, confidence_score, sample_count')
-      .eq('domain', domain)
-      .order('confidence_score', { ascending: false })
-      .limit(10); // Use top 10 patterns
-
-    if (error) {
-      console.error('Error fetching patterns:', error);
-      return DEFAULT_EMAIL_PATTERNS;
-    }
+// Patterns seen on the domain itself outrank every default; stronger evidence ranks higher.
+// Patterns the user added to the test outrank both.
+const CRAWLED_PATTERN_PRIORITY = 100;
+const CUSTOM_PATTERN_PRIORITY = 120;
 
-    if (patterns && patterns.length > 0) {
-      console.log(`Found ${patterns.length} detected patterns for ${domain}`);
-      const detectedPatterns = patterns.map((p: any) => p.pattern);
-      
-      // Combine detected patterns with some defaults for coverage
-      const combinedPatterns = [...detectedPatterns, ...DEFAULT_EMAIL_PATTERNS.slice(0, 5)];
-      return [...new Set(combinedPatterns)]; // Remove duplicates
-    }
+// Learned priors move a default or crawled pattern by up to this much either way, enough to reorder
+// patterns within a tier. The result is clamped to the tier, so no prior lifts a default above the
+// domain's own evidence or a crawled pattern above the user's.
+const LEARNED_PRIOR_WEIGHT = 20;
 
-    console.log(`No patterns found for ${domain}, using defaults`);
-    return DEFAULT_EMAIL_PATTERNS;
-  } catch (error) {
-    console.error('Error in getEmailPatterns:', error);
-    return DEFAULT_EMAIL_PATTERNS;
-  }
+function clampPriority(priority: number, min: number, max: number): number {
+  return Math.min(Math.max(priority, min), max);
 }
 
-// Email syntax validation
-function validateEmailSyntax(email: string): boolean {
-  const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-  return emailRegex.test(email);
+function learnedAdjustment(priors: Map<string, number>, source: string): number {
+  const prior = priors.get(source);
+  return prior === undefined ? 0 : Math.round(2 * LEARNED_PRIOR_WEIGHT * (prior - NEUTRAL_PRIOR));
 }
 
-// DNS MX record lookup
-async function checkDNSRecords(domain: string): Promise<{ valid: boolean; mxRecords?: string[] }> {
-  try {
-    // Simple DNS check - in production you'd use a more robust DNS library
-    const response = await fetch(`https://dns.google/resolve?name=${domain}&type=MX`);
-    const data = await response.json();
-    
-    if (data.Answer && data.Answer.length > 0) {
-      const mxRecords = data.Answer.map((record: any) => record.data);
-      return { valid: true, mxRecords };
-    }
-    return { valid: false };
-  } catch (error) {
-    console.error('DNS check failed:', error);
-    return { valid: false };
+// Patterns the domain crawl detected, most confident first
+async function getDetectedPatterns(supabase: SupabaseClient, domain: string): Promise<DetectedPattern[]> {
+  console.log(`Fetching detected patterns for domain: ${domain}`);
+
+  const { data: patterns, error } = await supabase
+    .from('email_patterns')
+    .select('pattern, confidence_score')
+    .eq('domain', domain)
+    .order('confidence_score', { ascending: false })
+    .limit(10); // Use top 10 patterns
+
+  if (error) {
+    console.error('Error fetching patterns:', error);
+    return [];
   }
+
+  console.log(`Found ${patterns?.length ?? 0} detected patterns for ${domain}`);
+  return (patterns ?? []).map(p => ({ pattern: p.pattern, confidence: Number(p.confidence_score) || 0 }));
 }
 
-// SMTP connection test (simplified)
-async function testSMTPDeliverability(email: string, domain: string): Promise<boolean> {
-  try {
-    // In production, you'd implement actual SMTP connection testing
-    // For now, we'll simulate based on DNS validity and common patterns
-    const dnsCheck = await checkDNSRecords(domain);
-    return dnsCheck.valid;
-  } catch (error) {
-    console.error('SMTP test failed:', error);
-    return false;
+// Merges custom, crawled and default patterns, keeping the highest priority for a pattern that
+// appears in more than one. Crawled and default patterns are adjusted by their learned prior (see
+// pattern-priors.ts); custom ones keep the rank the user gave them. Stored patterns that do not
+// parse are logged and skipped.
+function rankPatterns(
+  detectedPatterns: DetectedPattern[],
+  customPatterns: string[],
+  priors: Map<string, number>
+): RankedPattern[] {
+  const ranked = new Map<string, RankedPattern>();
+  const add = (entry: RankedPattern) => {
+    const current = ranked.get(entry.pattern.source);
+    if (!current || current.priority < entry.priority) {
+      ranked.set(entry.pattern.source, entry);
+    }
+  };
+
+  const custom = parseEmailPatterns(customPatterns);
+  for (const error of custom.errors) {
+    console.warn(`Skipping custom pattern "${error.source}": ${error.message}`);
+  }
+  for (const pattern of custom.patterns) {
+    add({ pattern, priority: CUSTOM_PATTERN_PRIORITY, rankingSource: 'user' });
+  }
+
+  for (const { pattern: source, confidence } of detectedPatterns) {
+    const parsed = parseEmailPattern(source);
+    if (parsed.ok === false) {
+      console.warn(`Skipping detected pattern "${source}": ${parsed.message}`);
+      continue;
+    }
+    add({
+      pattern: parsed,
+      priority: clampPriority(
+        CRAWLED_PATTERN_PRIORITY + Math.round(confidence * 10) + learnedAdjustment(priors, source),
+        CRAWLED_PATTERN_PRIORITY,
+        CUSTOM_PATTERN_PRIORITY - 1
+      ),
+      rankingSource: 'crawl',
+    });
   }
+
+  for (const entry of DEFAULT_EMAIL_PATTERNS) {
+    const priority = entry.priority + learnedAdjustment(priors, entry.pattern.source);
+    add({ ...entry, priority: clampPriority(priority, 0, CRAWLED_PATTERN_PRIORITY - 1) });
+  }
+  return [...ranked.values()];
 }
 
+type TestRow = {
+  id: string;
+  domain: string;
+  first_name: string;
+  last_name: string;
+  middle_name?: string | null;
+  name_order?: NameOrder | null;
+  custom_patterns?: string[] | null;
+};
+
 // Smart email generation with prioritization and scoring
-async function generateEmailPermutations(firstName: string, lastName: string, domain: string, supabase: any): Promise<{ email: string, pattern: string, priority: number }[]> {
-  const detectedPatterns = await getEmailPatterns(supabase, domain);
-  const emails: { email: string, pattern: string, priority: number }[] = [];
-  
-  const f = firstName.toLowerCase().charAt(0);
-  const l = lastName.toLowerCase().charAt(0);
-  const first = firstName.toLowerCase().replace(/[^a-z]/g, '');
-  const last = lastName.toLowerCase().replace(/[^a-z]/g, '');
-
-  // Function to get pattern priority
-  const getPatternPriority = (pattern: string): number => {
-    if (HIGH_PRIORITY_PATTERNS.includes(pattern)) return 90;
-    if (MEDIUM_PRIORITY_PATTERNS.includes(pattern)) return 70;  
-    if (LOW_PRIORITY_PATTERNS.includes(pattern)) return 50;
-    if (ROLE_BASED_PATTERNS.includes(pattern)) return 60;
-    return 30; // Detected patterns get medium priority
-  };
+function generateEmailPermutations(test: TestRow, patterns: RankedPattern[]): GeneratedCandidate[] {
+  const emails: GeneratedCandidate[] = [];
+  const domain = test.domain;
+  const order: NameOrder = test.name_order ?? 'given_first';
+  // Only patterns that ask for a middle name use it, so its plain spelling is enough
+  const middle = test.middle_name ? nameVariants(test.middle_name, 'first')[0]?.value : undefined;
+
+  // Every spelling of each name (José -> jose, Müller -> muller and mueller, William -> bill)
+  // produces its own candidates, ranked below the plain spelling by the variant's penalty
+  const names: { first: NameVariant; last: NameVariant }[] = [];
+  for (const first of nameVariants(test.first_name, 'first')) {
+    for (const last of nameVariants(test.last_name, 'last')) {
+      names.push({ first, last });
+    }
+  }
 
-  // Process patterns in priority order
-  const allPatterns = [...new Set([...detectedPatterns, ...DEFAULT_EMAIL_PATTERNS])];
-  
-  for (const pattern of allPatterns) {
-    let emailLocal = pattern
-      .replace(/{first}/g, first)
-      .replace(/{last}/g, last)
-      .replace(/{f}/g, f)
-      .replace(/{l}/g, l);
-    
-    const email = `${emailLocal}@${domain.toLowerCase()}`;
-    
-    if (validateEmailSyntax(email)) {
-      const priority = getPatternPriority(pattern);
-      emails.push({ email, pattern, priority });
+  for (const { pattern, priority, rankingSource } of patterns) {
+    // Fixed mailboxes (info, sales) do not depend on the name
+    if (pattern.parts.length === 0) {
+      const emailLocal = renderEmailPattern(pattern, {});
+      const email = `${emailLocal}@${domain.toLowerCase()}`;
+      if (emailLocal && isValidEmailAddress(email) && checkLocalPart(emailLocal, domain).ok) {
+        emails.push({ email, pattern: pattern.source, priority, rankingSource, nameVariant: null });
+      }
+      continue;
+    }
+
+    // {name1} and {name2} stand for the given and family names in either order
+    const usesOrdered = pattern.parts.includes('name1') || pattern.parts.includes('name2');
+    const usesFirst = usesOrdered || pattern.parts.includes('first');
+    const usesLast = usesOrdered || pattern.parts.includes('last');
+
+    for (const { first, last } of names) {
+      const name: PatternName = orderedName({ first: first.value, last: last.value, middle }, order);
+
+      // Null when the pattern needs a name part this person does not have
+      const emailLocal = renderEmailPattern(pattern, name);
+      if (!emailLocal) continue;
+
+      const email = `${emailLocal}@${domain.toLowerCase()}`;
+
+      // Skip addresses the provider could never have issued (e.g. a 4-letter gmail.com account)
+      if (!isValidEmailAddress(email) || !checkLocalPart(emailLocal, domain).ok) continue;
+
+      // Only the spellings the pattern actually uses lower its rank or explain it
+      const used = [...(usesFirst ? [first] : []), ...(usesLast ? [last] : [])];
+      const penalty = used.reduce((sum, variant) => sum + variant.penalty, 0);
+      const kinds = [...new Set(used.flatMap(variant => variant.kinds))].filter(kind => kind !== 'primary');
+
+      emails.push({
+        email,
+        pattern: pattern.source,
+        priority: priority - penalty,
+        rankingSource,
+        nameVariant: { first: usesFirst ? first.value : null, last: usesLast ? last.value : null, kinds },
+      });
     }
   }
 
-  // Remove duplicates and sort by priority
+  // Remove duplicates (including equivalent spellings such as Gmail dots), keeping the highest priority
+  const seen = new Set<string>();
   const uniqueEmails = emails
-    .filter((item, index, arr) => 
-      arr.findIndex(t => t.email === item.email) === index
-    )
     .sort((a, b) => b.priority - a.priority)
+    .filter(item => {
+      const canonical = canonicalizeEmail(item.email);
+      if (seen.has(canonical)) return false;
+      seen.add(canonical);
+      return true;
+    })
     .slice(0, 50); // Limit to top 50 most likely emails
 
   console.log(`Generated ${uniqueEmails.length} prioritized email candidates`);
   return uniqueEmails;
 }
 
+// verification_status is left out so an upsert never resets a verified candidate; new rows start
+// pending through the column default. verification_result carries only the name variant, which the
+// database merges into any existing result (see preserve_candidate_name_variant).
+function candidateRow(testId: string, { email, pattern, priority, rankingSource, nameVariant }: GeneratedCandidate) {
+  return {
+    test_id: testId,
+    email_address: email,
+    canonical_email: canonicalizeEmail(email),
+    email_pattern: pattern,
+    priority_score: priority,
+    ranking_source: rankingSource,
+    verification_result: { name_variant: nameVariant },
+  };
+}
+
+interface CandidateChanges {
+  added: string[];
+  updated: number;
+  unchanged: number;
+  // Existing candidates that were never verified, or are waiting on a deferral
+  pending: string[];
+  deferred: number;
+}
+
+// Writes generated candidates idempotently: new addresses are inserted and existing ones only have
+// their ranking refreshed, keeping their verification results. An equivalent spelling of an address
+// the test already has (see canonical-email.ts) counts as that address.
+async function upsertCandidates(supabase: SupabaseClient, testId: string, generated: GeneratedCandidate[]): Promise<CandidateChanges> {
+  const { data: existing, error: existingError } = await supabase
+    .from('email_candidates')
+    .select('email_address, canonical_email, priority_score, ranking_source, verification_status')
+    .eq('test_id', testId);
+
+  if (existingError) throw existingError;
+
+  const byCanonical = new Map((existing ?? []).map(c => [c.canonical_email ?? canonicalizeEmail(c.email_address), c]));
+  const changes: CandidateChanges = {
+    added: [],
+    updated: 0,
+    unchanged: 0,
+    pending: (existing ?? []).filter(c => c.verification_status === 'pending').map(c => c.email_address),
+    deferred: (existing ?? []).filter(c => c.verification_status === 'deferred').length,
+  };
+  const rows: ReturnType<typeof candidateRow>[] = [];
+
+  for (const candidate of generated) {
+    const current = byCanonical.get(canonicalizeEmail(candidate.email));
+    if (!current) {
+      changes.added.push(candidate.email);
+      rows.push(candidateRow(testId, candidate));
+    } else if (current.priority_score !== candidate.priority || current.ranking_source !== candidate.rankingSource) {
+      changes.updated++;
+      rows.push(candidateRow(testId, { ...candidate, email: current.email_address }));
+    } else {
+      changes.unchanged++;
+    }
+  }
+
+  if (rows.length > 0) {
+    const { error: upsertError } = await supabase
+      .from('email_candidates')
+      .upsert(rows, { onConflict: 'test_id,email_address' });
+
+    if (upsertError) {
+      console.error('Failed to store candidates:', upsertError);
+      throw upsertError;
+    }
+  }
+
+  console.log(`Candidates for test ${testId}: ${changes.added.length} added, ${changes.updated} re-ranked, ${changes.unchanged} unchanged`);
+  return changes;
+}
+
+// Generates the test's candidates from the domain's detected patterns (starting a crawl when there are
+// none yet; the crawl re-ranks the test once it finishes). Safe to run again: see upsertCandidates.
+async function generateCandidatesForTest(supabase: SupabaseClient, test: TestRow) {
+  const detectedPatterns = await getDetectedPatterns(supabase, test.domain);
+
+  if (detectedPatterns.length === 0) {
+    console.log(`No patterns found for ${test.domain}, initiating crawl...`);
+    
+    // Trigger domain crawl to discover patterns
+    try {
+      const crawlResponse = await supabase.functions.invoke('crawl-domain', {
+        body: { domain: test.domain, testId: test.id }
+      });
+      
+      if (crawlResponse.data?.success) {
+        console.log('Domain crawl initiated successfully');
+      }
+    } catch (crawlError) {
+      console.error('Failed to initiate crawl:', crawlError);
+    }
+  }
+
+  // Generate email permutations using detected patterns, ordered by what we have learned about them
+  const priors = await loadPatternPriors(supabase, test.domain);
+  const emailCandidates = generateEmailPermutations(test, rankPatterns(detectedPatterns, test.custom_patterns ?? [], priors));
+
+  console.log(`Generated ${emailCandidates.length} email candidates using ${detectedPatterns.length} detected patterns`);
+
+  const changes = await upsertCandidates(supabase, test.id, emailCandidates);
+  return { emailCandidates, patternsDetected: detectedPatterns.length, changes };
+}
+
+// Re-ranks a test's candidates with the patterns its domain crawl found, adding the candidates those
+// patterns produce that the test does not have yet
+async function rerankCandidatesForTest(supabase: SupabaseClient, test: TestRow) {
+  const detectedPatterns = await getDetectedPatterns(supabase, test.domain);
+  if (detectedPatterns.length === 0) {
+    return { reranked: 0, added: [] as string[], patternsDetected: 0 };
+  }
+
+  const priors = await loadPatternPriors(supabase, test.domain);
+  const ranked = generateEmailPermutations(test, rankPatterns(detectedPatterns, test.custom_patterns ?? [], priors));
+  const changes = await upsertCandidates(supabase, test.id, ranked);
+  return { reranked: changes.updated, added: changes.added, patternsDetected: detectedPatterns.length };
+}
+
 serve(async (req) => {
   // Handle CORS preflight requests
   if (req.method === 'OPTIONS') {
@@ -185,7 +410,10 @@ serve(async (req) => {
   }
 
   try {
-    const { testId } = await req.json();
+    // verify: false leaves verification to the caller (e.g. a streamed verify-email-advanced request);
+    // run: true means the job worker is executing this as a generate job and will pick up what it queues;
+    // rerank: true re-ranks existing candidates once the domain crawl has found patterns
+    const { testId, verify = true, run = false, rerank = false } = await req.json();
 
     if (!testId) {
       return new Response(JSON.stringify({ error: 'Test ID is required' }), {
@@ -216,79 +444,103 @@ serve(async (req) => {
       });
     }
 
-    // Update test status to generating
-    await supabase
-      .from('tests')
-      .update({ status: 'generating' })
-      .eq('id', testId);
-
-    // Check for existing crawl data or initiate crawl
-    const { data: existingPatterns } = await supabase
-      .from('email_patterns')
-      .select('*')
-      .eq('domain', test.domain);
+    if (rerank) {
+      // Candidates are still being written; a rerank job is retried with backoff until they are in
+      if (test.status === 'pending' || test.status === 'generating') {
+        return new Response(JSON.stringify({ error: 'Test is still generating candidates' }), {
+          status: 409,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      if (test.status === 'failed') {
+        console.log(`Test ${testId} failed, not re-ranking its candidates`);
+        return new Response(JSON.stringify({ success: true, skipped: true }), {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
 
-    if (!existingPatterns || existingPatterns.length === 0) {
-      console.log(`No patterns found for ${test.domain}, initiating crawl...`);
-      
-      // Trigger domain crawl to discover patterns
+      const rerankStepId = await startTestStep(supabase, testId, 'rerank');
+      let outcome: Awaited<ReturnType<typeof rerankCandidatesForTest>>;
       try {
-        const crawlResponse = await supabase.functions.invoke('crawl-domain', {
-          body: { domain: test.domain }
+        outcome = await rerankCandidatesForTest(supabase, test);
+        await finishTestStep(supabase, rerankStepId, {
+          reranked: outcome.reranked,
+          added: outcome.added.length,
+          patterns_detected: outcome.patternsDetected,
         });
-        
-        if (crawlResponse.data?.success) {
-          console.log('Domain crawl initiated successfully');
-        }
-      } catch (crawlError) {
-        console.error('Failed to initiate crawl:', crawlError);
+      } catch (error) {
+        await failTestStep(supabase, rerankStepId, (error as Error).message);
+        throw error;
       }
-    }
 
-    // Generate email permutations using detected patterns
-    const emailCandidates = await generateEmailPermutations(
-      test.first_name,
-      test.last_name,
-      test.domain,
-      supabase
-    );
-
-    console.log(`Generated ${emailCandidates.length} email candidates using ${existingPatterns?.length || 0} detected patterns`);
-
-    // Insert email candidates with priority metadata
-    const candidates = emailCandidates.map(({ email, pattern, priority }) => ({
-      test_id: testId,
-      email_address: email,
-      email_pattern: pattern,
-      verification_status: 'pending',
-      verification_result: { priority_score: priority }
-    }));
-
-    const { error: insertError } = await supabase
-      .from('email_candidates')
-      .insert(candidates);
+      if (outcome.added.length > 0) {
+        await enqueueJob(supabase, 'verify', { emails: outcome.added }, { testId });
+        if (!run) {
+          EdgeRuntime.waitUntil(triggerJobWorker(supabase));
+        }
+      }
 
-    if (insertError) {
-      console.error('Failed to insert candidates:', insertError);
-      throw insertError;
+      return new Response(JSON.stringify({
+        success: true,
+        reranked: outcome.reranked,
+        added: outcome.added.length,
+        patterns_detected: outcome.patternsDetected,
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
     }
 
-    // Update test status to verifying
-    await supabase
-      .from('tests')
-      .update({ status: 'verifying' })
-      .eq('id', testId);
+    // Generation starts a pending test or reruns a completed or failed one
+    if (!await transitionTest(supabase, testId, 'generating')) {
+      return new Response(JSON.stringify({ error: `Test cannot start generating while ${test.status}` }), {
+        status: 409,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
 
-    // Start background verification process
-    const emailAddresses = emailCandidates.map(c => c.email);
-    console.log('Starting background verification for', emailAddresses.length, 'emails');
-    EdgeRuntime.waitUntil(verifyEmailCandidatesUsingAdvancedAPI(supabase, testId, emailAddresses));
+    const stepId = await startTestStep(supabase, testId, 'generate');
+    let generated: Awaited<ReturnType<typeof generateCandidatesForTest>>;
+    try {
+      generated = await generateCandidatesForTest(supabase, test);
+      await finishTestStep(supabase, stepId, {
+        candidates_generated: generated.emailCandidates.length,
+        added: generated.changes.added.length,
+        reranked: generated.changes.updated,
+        patterns_detected: generated.patternsDetected,
+      });
+    } catch (error) {
+      await failTestStep(supabase, stepId, (error as Error).message);
+      // A claimed job is retried by the worker, which fails the test itself once the job is dead-lettered
+      if (!run) {
+        await transitionTest(supabase, testId, 'failed');
+      }
+      throw error;
+    }
+    const { emailCandidates, patternsDetected, changes } = generated;
+
+    // Existing results are kept: only new candidates and ones never verified need verifying
+    const emailAddresses = [...changes.added, ...changes.pending];
+    const settled = emailAddresses.length === 0 && changes.deferred === 0;
+    await transitionTest(supabase, testId, settled ? 'completed' : 'verifying');
+
+    if (verify && emailAddresses.length > 0) {
+      // Verification runs as a durable job; verify-email-advanced records results on the candidates
+      console.log('Queueing verification for', emailAddresses.length, 'emails');
+      await enqueueJob(supabase, 'verify', { emails: emailAddresses }, { testId });
+      if (!run) {
+        EdgeRuntime.waitUntil(triggerJobWorker(supabase));
+      }
+    }
 
     return new Response(JSON.stringify({ 
       success: true,
       candidates_generated: emailCandidates.length,
-      patterns_detected: existingPatterns?.length || 0,
-      message: 'Email generation started, verification in progress'
+      added: changes.added.length,
+      reranked: changes.updated,
+      unchanged: changes.unchanged,
+      patterns_detected: patternsDetected,
+      emails: emailAddresses,
+      message: verify && emailAddresses.length > 0 ? 'Email generation started, verification in progress' : 'Email candidates generated'
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
     });
@@ -301,77 +553,3 @@ serve(async (req) => {
     });
   }
 });
-
-// Background verification using advanced API
-async function verifyEmailCandidatesUsingAdvancedAPI(supabase: any, testId: string, emails: string[]) {
-  console.log('Starting background verification using advanced API for', emails.length, 'emails');
-  
-  try {
-    // Call the verify-email-advanced function
-    const { data: verificationData, error: verificationError } = await supabase.functions.invoke('verify-email-advanced', {
-      body: { emails }
-    });
-
-    if (verificationError) {
-      console.error('Advanced verification failed:', verificationError);
-      throw verificationError;
-    }
-
-    if (!verificationData?.results) {
-      console.error('No verification results received');
-      throw new Error('No verification results received');
-    }
-
-    console.log('Advanced verification completed, updating database...');
-
-    // Update candidates with verification results
-    for (const result of verificationData.results) {
-      try {
-        // Convert the result to our database format
-        let status = 'invalid';
-        if (result.isValid) {
-          if (result.details.confidence === 'high') {
-            status = 'valid';
-          } else if (result.details.confidence === 'medium') {
-            status = 'valid';
-          } else {
-            status = 'valid';
-          }
-        }
-
-        await supabase
-          .from('email_candidates')
-          .update({
-            verification_status: status,
-            verification_result: result,
-            updated_at: new Date().toISOString()
-          })
-          .eq('email_address', result.email)
-          .eq('test_id', testId);
-
-      } catch (updateError: any) {
-        console.error(`Error updating candidate ${result.email}:`, updateError);
-      }
-    }
-    
-    // Update test status to completed
-    await supabase
-      .from('tests')
-      .update({ status: 'completed' })
-      .eq('id', testId);
-      
-    console.log('Verification completed for test:', testId);
-    
-  } catch (error: any) {
-    console.error('Background verification failed:', error);
-    
-    // Update test status to failed
-    await supabase
-      .from('tests')
-      .update({ 
-        status: 'failed',
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', testId);
-  }
-}
\ No newline at end of file
@@ -1,6 +1,8 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { canonicalizeEmail } from '../_shared/canonical-email.ts';
+import { schedulePatternPriors } from '../_shared/pattern-priors.ts';
 
 const supabase = createClient(
   Deno.env.get('SUPABASE_URL') ?? '',
@@ -41,27 +43,43 @@ serve(async (req) => {
       
       console.log(`Processing bounce for email: ${email}, message ID: ${email_id}`);
 
-      // Update email verification status in database
-      const { error: updateError } = await supabase
+      // Candidates may spell the address differently from the sent mail, so match on the canonical form
+      const canonicalEmail = canonicalizeEmail(email);
+      const bouncedAt = new Date().toISOString();
+
+      const { data: candidates, error: fetchError } = await supabase
         .from('email_candidates')
-        .update({
-          verification_status: 'bounced',
-          verification_details: JSON.stringify({
-            bounce_type,
-            bounce_reason,
-            bounced_at: new Date().toISOString(),
-            message_id: email_id
-          }),
-          updated_at: new Date().toISOString()
-        })
-        .eq('email', email);
+        .select('id, bounce_count')
+        .eq('canonical_email', canonicalEmail);
 
-      if (updateError) {
-        console.error('Error updating email status:', updateError);
-      } else {
-        console.log(`Successfully marked ${email} as bounced`);
+      if (fetchError) {
+        console.error('Error finding bounced candidates:', fetchError);
+      }
+
+      for (const candidate of candidates ?? []) {
+        const { error: updateError } = await supabase
+          .from('email_candidates')
+          .update({
+            verification_status: 'bounced',
+            bounce_count: (candidate.bounce_count ?? 0) + 1,
+            last_bounce_at: bouncedAt,
+            delivery_response: JSON.stringify({
+              bounce_type,
+              bounce_reason,
+              bounced_at: bouncedAt,
+              message_id: email_id
+            }),
+            updated_at: bouncedAt
+          })
+          .eq('id', candidate.id);
+
+        if (updateError) {
+          console.error('Error updating email status:', updateError);
+        }
       }
 
+      console.log(`Marked ${candidates?.length ?? 0} candidates for ${canonicalEmail} as bounced`);
+
       // Also update any test results
       const { error: testUpdateError } = await supabase
         .from('email_test_results')
@@ -70,9 +88,9 @@ serve(async (req) => {
           bounce_details: JSON.stringify({
             bounce_type,
             bounce_reason,
-            bounced_at: new Date().toISOString()
+            bounced_at: bouncedAt
           }),
-          updated_at: new Date().toISOString()
+          updated_at: bouncedAt
         })
         .eq('message_id', email_id);
 
@@ -91,15 +109,15 @@ serve(async (req) => {
       const { error: updateError } = await supabase
         .from('email_candidates')
         .update({
-          verification_status: 'valid',
-          verification_details: JSON.stringify({
+          verification_status: 'delivery_confirmed',
+          delivery_response: JSON.stringify({
             delivered_at: new Date().toISOString(),
             message_id: email_id,
             delivery_confirmed: true
           }),
           updated_at: new Date().toISOString()
         })
-        .eq('email', email);
+        .eq('canonical_email', canonicalizeEmail(email));
 
       if (updateError) {
         console.error('Error updating delivery status:', updateError);
@@ -121,6 +139,17 @@ serve(async (req) => {
       }
     }
 
+    // Bounces and confirmed deliveries are evidence for the learned pattern priors. The recompute is
+    // left to the worker's next scheduled run (every minute) rather than nudged, so a burst of
+    // webhooks shares one queued job
+    if (webhookData.type === 'email.bounced' || webhookData.type === 'email.delivered') {
+      try {
+        await schedulePatternPriors(supabase);
+      } catch (scheduleError) {
+        console.error('Error scheduling pattern prior recompute:', scheduleError);
+      }
+    }
+
     return new Response('Webhook processed successfully', {
       status: 200,
       headers: corsHeaders
@@ -0,0 +1,115 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { BUNDLED_DOMAIN_LISTS, normalizeListDomain, type DomainListCategory } from '../_shared/domain-lists.ts';
+import { normalizeRoleLocalPart } from '../_shared/role-accounts.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+const CATEGORIES: DomainListCategory[] = ['disposable', 'free_webmail', 'role_account'];
+const CHUNK_SIZE = 500;
+
+interface ImportRequest {
+  // Bundled lists to import; defaults to all of them when no entries are given
+  lists?: DomainListCategory[];
+  // Extra domains (local parts for 'role_account') from another list file
+  entries?: { category: DomainListCategory; domains: string[]; source?: string }[];
+  // Remove rows from the same source that are no longer in the imported list
+  replace?: boolean;
+}
+
+// Admin-only: the caller must present the service role key
+function isAdminRequest(req: Request): boolean {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  const authorization = req.headers.get('Authorization') ?? '';
+  return !!serviceRoleKey && authorization === `Bearer ${serviceRoleKey}`;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (!isAdminRequest(req)) {
+    return new Response(
+      JSON.stringify({ error: 'Admin access required' }),
+      { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const body: ImportRequest = await req.json().catch(() => ({}));
+    const imports: { category: DomainListCategory; domains: string[]; source: string }[] = [];
+
+    const bundled = body.lists ?? (body.entries ? [] : CATEGORIES);
+    for (const category of bundled) {
+      if (!CATEGORIES.includes(category)) throw new Error(`Unknown list category: ${category}`);
+      imports.push({ category, domains: BUNDLED_DOMAIN_LISTS[category], source: 'bundled' });
+    }
+    for (const entry of body.entries ?? []) {
+      if (!CATEGORIES.includes(entry.category)) throw new Error(`Unknown list category: ${entry.category}`);
+      imports.push({ category: entry.category, domains: entry.domains, source: entry.source ?? 'import' });
+    }
+
+    const summary: Record<string, { imported: number; removed: number }> = {};
+
+    for (const { category, domains, source } of imports) {
+      const unique = category === 'role_account'
+        ? [...new Set(domains.map(normalizeRoleLocalPart).filter(localPart => localPart && !localPart.includes('@')))]
+        : [...new Set(domains.map(normalizeListDomain).filter(domain => domain.includes('.')))];
+      console.log(`Importing ${unique.length} ${category} entries from ${source}`);
+
+      for (let i = 0; i < unique.length; i += CHUNK_SIZE) {
+        const rows = unique.slice(i, i + CHUNK_SIZE).map(domain => ({ domain, category, source }));
+        const { error } = await supabase
+          .from('disposable_domains')
+          .upsert(rows, { onConflict: 'domain' });
+        if (error) throw error;
+      }
+
+      let removed = 0;
+      if (body.replace) {
+        const { data: existing, error } = await supabase
+          .from('disposable_domains')
+          .select('id, domain')
+          .eq('category', category)
+          .eq('source', source);
+        if (error) throw error;
+
+        const keep = new Set(unique);
+        const stale = (existing ?? []).filter(row => !keep.has(row.domain)).map(row => row.id);
+        for (let i = 0; i < stale.length; i += CHUNK_SIZE) {
+          const { error: deleteError } = await supabase
+            .from('disposable_domains')
+            .delete()
+            .in('id', stale.slice(i, i + CHUNK_SIZE));
+          if (deleteError) throw deleteError;
+        }
+        removed = stale.length;
+      }
+
+      const key = `${category}:${source}`;
+      summary[key] = { imported: unique.length, removed };
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, summary }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error importing domain lists:', error);
+    return new Response(
+      JSON.stringify({ error: (error as Error).message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -0,0 +1,167 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { claimJobs, completeJob, enqueueJob, failJob, requeueJob, type Job, type JobStatus, type JobType } from '../_shared/jobs.ts';
+import { transitionTest } from '../_shared/test-lifecycle.ts';
+import { recomputePatternPriors } from '../_shared/pattern-priors.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Jobs claimed per round. One at a time, so each job's lease starts when the job does: a batch would
+// keep later jobs waiting under a lease that can lapse before they run, letting a second worker take them.
+// The worker keeps claiming until the queue is empty or its time is up, leaving the rest to the next
+// scheduled run.
+const CLAIM_BATCH_SIZE = 1;
+const RUN_BUDGET_MS = 2 * 60 * 1000;
+
+interface ProcessedJob {
+  id: string;
+  type: JobType;
+  status: JobStatus;
+  error?: string;
+}
+
+async function invokeFunction(supabase: SupabaseClient, name: string, body: Record<string, unknown>) {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+  if (error) throw error;
+  if (data?.error) throw new Error(data.error);
+  return data;
+}
+
+// Each job type runs the function that owns the work; `run: true` tells it a claimed job is executing.
+// Priors have no function of their own and are recomputed in the worker.
+const HANDLERS: Record<JobType, (supabase: SupabaseClient, job: Job) => Promise<unknown>> = {
+  crawl: (supabase, job) => invokeFunction(supabase, 'crawl-domain', { ...job.payload, testId: job.test_id, run: true }),
+  generate: (supabase, job) => invokeFunction(supabase, 'generate-email-candidates', { ...job.payload, testId: job.test_id, run: true }),
+  verify: async (supabase, job) => {
+    const data = await invokeFunction(supabase, 'verify-email-advanced', {
+      emails: job.payload.emails,
+      testId: job.test_id,
+      source: 'process-jobs',
+      run: true,
+    });
+    // Per-address results are already recorded on the candidates
+    return { summary: data.summary };
+  },
+  priors: (supabase) => recomputePatternPriors(supabase),
+};
+
+async function runJob(supabase: SupabaseClient, job: Job): Promise<ProcessedJob> {
+  console.log(`Running ${job.type} job ${job.id} (attempt ${job.attempts}/${job.max_attempts})`);
+
+  // Reclaimed after its lease lapsed on the final attempt: the job keeps dying mid-run
+  if (job.attempts > job.max_attempts) {
+    const status = await failJob(supabase, job, job.last_error ?? 'Worker stopped before the job finished');
+    return { id: job.id, type: job.type, status };
+  }
+
+  try {
+    const result = await HANDLERS[job.type](supabase, job);
+    await completeJob(supabase, job, result);
+    return { id: job.id, type: job.type, status: 'succeeded' };
+  } catch (error) {
+    const message = (error as Error).message;
+    console.error(`Job ${job.id} failed:`, error);
+    const status = await failJob(supabase, job, message);
+
+    // A test whose generation or verification is dead-lettered will not finish on its own;
+    // a failed re-rank leaves the test with the candidates it already has
+    const finishesTest = (job.type === 'generate' && !job.payload.rerank) || job.type === 'verify';
+    if (status === 'dead' && job.test_id && finishesTest) {
+      await transitionTest(supabase, job.test_id, 'failed');
+    }
+    return { id: job.id, type: job.type, status, error: message };
+  }
+}
+
+// Picks a test up where it stopped: verify candidates still pending, or generate them if there are none
+async function resumeTest(supabase: SupabaseClient, testId: string): Promise<Job | null> {
+  const { count: active, error: activeError } = await supabase
+    .from('jobs')
+    .select('id', { count: 'exact', head: true })
+    .eq('test_id', testId)
+    .in('status', ['queued', 'running']);
+
+  if (activeError) throw activeError;
+  if (active) {
+    console.log(`Test ${testId} already has ${active} unfinished jobs`);
+    return null;
+  }
+
+  const { data: candidates, error: candidatesError } = await supabase
+    .from('email_candidates')
+    .select('email_address, verification_status')
+    .eq('test_id', testId);
+
+  if (candidatesError) throw candidatesError;
+
+  if (!candidates || candidates.length === 0) {
+    return enqueueJob(supabase, 'generate', {}, { testId });
+  }
+
+  const pending = candidates.filter(c => c.verification_status === 'pending').map(c => c.email_address);
+  if (pending.length === 0) return null;
+
+  await transitionTest(supabase, testId, 'verifying');
+  return enqueueJob(supabase, 'verify', { emails: pending }, { testId });
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const { retryJobId, resumeTestId } = await req.json().catch(() => ({}));
+
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    if (retryJobId) {
+      await requeueJob(supabase, retryJobId);
+      console.log(`Requeued job ${retryJobId}`);
+    }
+
+    const resumed = resumeTestId ? await resumeTest(supabase, resumeTestId) : null;
+
+    const workerId = crypto.randomUUID();
+    const started = Date.now();
+    const processed: ProcessedJob[] = [];
+
+    while (Date.now() - started < RUN_BUDGET_MS) {
+      const jobs = await claimJobs(supabase, workerId, CLAIM_BATCH_SIZE);
+      if (jobs.length === 0) break;
+
+      for (const job of jobs) {
+        processed.push(await runJob(supabase, job));
+      }
+    }
+
+    console.log(`Worker ${workerId} processed ${processed.length} jobs`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        resumed_job: resumed?.id ?? null,
+        processed: processed.length,
+        succeeded: processed.filter(job => job.status === 'succeeded').length,
+        requeued: processed.filter(job => job.status === 'queued').length,
+        dead: processed.filter(job => job.status === 'dead').length,
+        jobs: processed,
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error in process-jobs function:', error);
+    return new Response(
+      JSON.stringify({ error: (error as Error).message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
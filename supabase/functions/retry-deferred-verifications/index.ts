@@ -0,0 +1,145 @@
+import "https://deno.land/x/xhr@0.1.0/mod.ts";
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { candidateVerificationUpdate, type VerificationOutcome } from '../_shared/verification-status.ts';
+import { transitionTest } from '../_shared/test-lifecycle.ts';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+// Candidates re-verified per invocation; pg_cron calls the worker every five minutes
+const BATCH_LIMIT = 50;
+
+interface DeferredCandidate {
+  id: string;
+  test_id: string;
+  email_address: string;
+  verification_attempts: number | null;
+  retry_expires_at: string | null;
+}
+
+// Move tests out of 'verifying' once none of their candidates are still deferred
+async function completeResolvedTests(supabase: ReturnType<typeof createClient>, testIds: string[]): Promise<string[]> {
+  const completed: string[] = [];
+
+  for (const testId of testIds) {
+    const { count, error } = await supabase
+      .from('email_candidates')
+      .select('id', { count: 'exact', head: true })
+      .eq('test_id', testId)
+      .eq('verification_status', 'deferred');
+
+    if (error) {
+      console.error(`Error counting deferred candidates for test ${testId}:`, error);
+      continue;
+    }
+
+    if (count === 0 && await transitionTest(supabase, testId, 'completed', { from: 'verifying' })) {
+      completed.push(testId);
+    }
+  }
+
+  return completed;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const now = new Date().toISOString();
+
+    const { data: due, error: dueError } = await supabase
+      .from('email_candidates')
+      .select('id, test_id, email_address, verification_attempts, retry_expires_at')
+      .eq('verification_status', 'deferred')
+      .lte('next_retry_at', now)
+      .order('next_retry_at', { ascending: true })
+      .limit(BATCH_LIMIT);
+
+    if (dueError) {
+      throw dueError;
+    }
+
+    const candidates = (due ?? []) as DeferredCandidate[];
+    console.log(`Re-verifying ${candidates.length} deferred candidates`);
+
+    if (candidates.length === 0) {
+      return new Response(
+        JSON.stringify({ success: true, processed: 0, resolved: 0, still_deferred: 0, expired: 0, tests_completed: [] }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const emails = [...new Set(candidates.map(c => c.email_address))];
+    // Deferred addresses need a fresh answer from the mail server, never a cached one
+    const { data: verificationData, error: verificationError } = await supabase.functions.invoke('verify-email-advanced', {
+      body: { emails, force: true, source: 'retry-deferred-verifications' }
+    });
+
+    if (verificationError || !verificationData?.results) {
+      throw verificationError ?? new Error('No verification results received');
+    }
+
+    const resultsByEmail = new Map<string, VerificationOutcome & { email: string }>(
+      verificationData.results.map((result: VerificationOutcome & { email: string }) => [result.email, result])
+    );
+
+    let resolved = 0;
+    let stillDeferred = 0;
+    let expired = 0;
+
+    for (const candidate of candidates) {
+      const result = resultsByEmail.get(candidate.email_address);
+      if (!result) continue;
+
+      const update = candidateVerificationUpdate(result, candidate);
+      if (update.verification_status === 'deferred') stillDeferred++;
+      else if (update.verification_status === 'unknown') expired++;
+      else resolved++;
+
+      const { error: updateError } = await supabase
+        .from('email_candidates')
+        .update(update)
+        .eq('id', candidate.id);
+
+      if (updateError) {
+        console.error(`Error updating candidate ${candidate.email_address}:`, updateError);
+      }
+    }
+
+    const testsCompleted = await completeResolvedTests(
+      supabase,
+      [...new Set(candidates.map(c => c.test_id))]
+    );
+
+    console.log(`Deferred re-verification done: ${resolved} resolved, ${stillDeferred} still deferred, ${expired} expired`);
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        processed: candidates.length,
+        resolved,
+        still_deferred: stillDeferred,
+        expired,
+        tests_completed: testsCompleted
+      }),
+      { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+
+  } catch (error) {
+    console.error('Error in retry-deferred-verifications function:', error);
+    return new Response(
+      JSON.stringify({ error: (error as Error).message }),
+      { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+    );
+  }
+});
@@ -2,6 +2,8 @@ import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { Resend } from "npm:resend@4.0.0";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { parseEmailAddress } from '../_shared/email-address.ts';
+import { canonicalizeEmail } from '../_shared/canonical-email.ts';
 
 const resend = new Resend(Deno.env.get('RESEND_API_KEY'));
 
@@ -44,6 +46,14 @@ serve(async (req) => {
       );
     }
 
+    const parsed = parseEmailAddress(email);
+    if (!parsed.ok) {
+      return new Response(
+        JSON.stringify({ error: parsed.message, code: parsed.code }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
     console.log(`Sending test email to: ${email}`);
 
     // Generate a unique verification code for tracking
@@ -152,6 +162,7 @@ You can safely ignore or delete this email. This test was conducted to verify em
     // Store in email_test_results for bounce tracking
     const { error: testResultError } = await supabase.from('email_test_results').insert({
       email,
+      canonical_email: canonicalizeEmail(email),
       message_id: emailResponse.data?.id,
       delivery_status: 'sent',
       created_at: timestamp
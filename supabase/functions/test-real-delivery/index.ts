@@ -2,6 +2,8 @@ import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
 import { Resend } from 'npm:resend@4.0.0';
+import { parseEmailAddress } from '../_shared/email-address.ts';
+import { canonicalizeEmail } from '../_shared/canonical-email.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -40,6 +42,14 @@ serve(async (req) => {
       });
     }
 
+    const parsed = parseEmailAddress(testEmail);
+    if (!parsed.ok) {
+      return new Response(JSON.stringify({ error: parsed.message, code: parsed.code }), {
+        status: 400,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     console.log(`Testing real delivery to: ${testEmail}`);
     
     const timestamp = new Date().toISOString();
@@ -172,6 +182,7 @@ You can safely delete this email.
       .insert({
         test_id: testId,
         email: testEmail,
+        canonical_email: canonicalizeEmail(testEmail),
         message_id: emailResponse.data?.id,
         delivery_status: 'sent',
         created_at: timestamp
@@ -196,7 +207,7 @@ You can safely delete this email.
             }),
             updated_at: new Date().toISOString()
           })
-          .eq('email_address', testEmail)
+          .eq('canonical_email', canonicalizeEmail(testEmail))
           .eq('test_id', testId);
 
         console.log(`Database updated for ${testEmail} with delivery confirmation`);
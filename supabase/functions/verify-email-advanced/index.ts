@@ -1,5 +1,23 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.55.0';
+import { formatSmtpReply, probeRecipients, type SmtpErrorKind } from '../_shared/smtp.ts';
+import {
+  applyRiskReasons,
+  classifyRecipientReply,
+  type ReasonCode,
+  type VerificationStatus,
+} from '../_shared/verification-status.ts';
+import { createDomainFactsLoader, type DomainFacts } from '../_shared/domain-facts.ts';
+import { flagAddress, loadDomainLists, type AddressFlags, type DomainLists } from '../_shared/domain-lists.ts';
+import { isValidEmailAddress, parseEmailAddress, type AddressErrorCode } from '../_shared/email-address.ts';
+import { suggestDomain } from '../_shared/domain-suggestions.ts';
+import { loadKnownDomains } from '../_shared/known-domains.ts';
+import { checkLocalPart, type LocalPartViolation } from '../_shared/local-part-rules.ts';
+import { canonicalizeEmail } from '../_shared/canonical-email.ts';
+import { loadCachedVerifications, storeVerifications } from '../_shared/verification-cache.ts';
+import { completeTestVerification, recordCandidateResult } from '../_shared/candidate-results.ts';
+import { failTestStep, finishTestStep, startTestStep, transitionTest } from '../_shared/test-lifecycle.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -9,408 +27,505 @@ const corsHeaders = {
 interface VerificationResult {
   email: string;
   isValid: boolean;
+  status: VerificationStatus;
+  reasons: ReasonCode[];
   score: number;
+  // Set when the result was served from email_verifications instead of being re-verified
+  cached?: { verifiedAt: string; source: string };
   checks: {
     syntax: boolean;
     domain: boolean;
     mx: boolean;
     smtp: boolean;
     catchAll: boolean;
+    // Deprecated: true when the address is NOT disposable, the opposite of flags.disposable. Kept
+    // for existing clients; new code should read flags.disposable.
     disposable: boolean;
   };
+  // Classifier flags: true means the address IS disposable / a role account / on free webmail /
+  // machine-generated
+  flags: AddressFlags;
   details: {
+    syntaxError?: AddressErrorCode;
+    canonicalEmail?: string;
+    localPartViolation?: LocalPartViolation;
+    suggestion?: { email: string; domain: string; distance: number };
+    smtpUtf8?: boolean;
     mxRecords?: string[];
+    implicitMx?: boolean;
+    nullMx?: boolean;
     smtpResponse?: string;
+    smtpCode?: number;
+    smtpEnhancedStatus?: string;
+    smtpHost?: string;
+    smtpTranscript?: string[];
+    catchAllProbe?: string;
     confidence: 'high' | 'medium' | 'low';
     provider?: string;
+    providerKind?: string;
   };
 }
 
-// Enhanced email syntax validation
-function validateEmailSyntax(email: string): boolean {
-  // More comprehensive regex that handles edge cases
-  const emailRegex = /^[a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
-  
-  if (!emailRegex.test(email)) return false;
-  
-  // Additional checks
-  const parts = email.split('@');
-  if (parts.length !== 2) return false;
-  
-  const [localPart, domain] = parts;
-  
-  // Check length limits
-  if (localPart.length > 64 || domain.length > 253) return false;
-  
-  // Check for consecutive dots
-  if (email.includes('..')) return false;
-  
-  return true;
+// Mailbox phase: ask the domain's MX hosts whether they accept this recipient
+async function checkSMTPDeliverability(email: string, facts: DomainFacts): Promise<{
+  deliverable: boolean;
+  response: string;
+  deferred: boolean;
+  errorKind?: SmtpErrorKind;
+  code?: number;
+  enhancedStatus?: string;
+  host?: string;
+  transcript: string[];
+}> {
+  const mxRecords = facts.mxRecords;
+  if (mxRecords.length === 0) {
+    return { deliverable: false, response: 'No MX records', deferred: false, transcript: [] };
+  }
+
+  const probe = await probeRecipients(mxRecords, [email]);
+  const reply = probe.recipients[0];
+
+  if (!reply) {
+    // A 4xx greeting or MAIL FROM reply is a temporary refusal, not a verdict on the mailbox
+    const lastReply = probe.mailFrom ?? probe.greeting;
+    return {
+      deliverable: false,
+      response: probe.error ?? 'SMTP dialogue did not reach RCPT TO',
+      deferred: !!lastReply && lastReply.code >= 400 && lastReply.code < 500,
+      errorKind: probe.errorKind,
+      host: probe.host,
+      transcript: probe.transcript
+    };
+  }
+
+  return {
+    deliverable: reply.code === 250 || reply.code === 251,
+    response: formatSmtpReply(reply),
+    deferred: reply.code >= 400 && reply.code < 500,
+    code: reply.code,
+    enhancedStatus: reply.enhancedStatus,
+    host: probe.host,
+    transcript: probe.transcript
+  };
 }
 
-// Check if domain is disposable/temporary
-function isDisposableEmail(domain: string): boolean {
-  const disposableDomains = [
-    '10minutemail.com', 'tempmail.org', 'guerrillamail.com', 'mailinator.com',
-    '0-mail.com', '1-mail.com', '2-mail.com', '33mail.com', 'throwaway.email',
-    'temp-mail.org', 'getairmail.com', 'fakeinbox.com', 'spamgourmet.com'
-  ];
-  
-  return disposableDomains.some(d => domain.toLowerCase().includes(d));
+// Map a failed SMTP dialogue (no RCPT TO answer) to a reason code
+function smtpFailureReason(errorKind?: SmtpErrorKind): ReasonCode {
+  if (errorKind === 'timeout') return 'smtp_timeout';
+  if (errorKind === 'connection') return 'smtp_unreachable';
+  return 'smtp_error';
 }
 
-// Enhanced MX record checking with multiple DNS providers
-async function checkMXRecords(domain: string): Promise<{ valid: boolean; records: string[]; provider?: string }> {
-  const dnsProviders = [
-    { name: 'Cloudflare', url: `https://cloudflare-dns.com/dns-query?name=${domain}&type=MX` },
-    { name: 'Google', url: `https://dns.google/resolve?name=${domain}&type=MX` },
-    { name: 'Quad9', url: `https://dns.quad9.net:5053/dns-query?name=${domain}&type=MX` }
-  ];
-
-  for (const provider of dnsProviders) {
-    try {
-      console.log(`Checking MX records for ${domain} via ${provider.name}`);
-      
-      const response = await fetch(provider.url, {
-        headers: { 'Accept': 'application/dns-json' },
-        signal: AbortSignal.timeout(10000)
-      });
-
-      if (!response.ok) continue;
-
-      const data = await response.json();
-      
-      if (data.Answer && data.Answer.length > 0) {
-        const mxRecords = data.Answer
-          .filter((record: any) => record.type === 15)
-          .map((record: any) => {
-            const parts = record.data.split(' ');
-            return parts.length > 1 ? parts[1].replace(/\.$/, '') : record.data;
-          })
-          .filter((server: string) => server && server.length > 0);
-        
-        if (mxRecords.length > 0) {
-          console.log(`Found ${mxRecords.length} MX records for ${domain} via ${provider.name}`);
-          return { valid: true, records: mxRecords, provider: provider.name };
-        }
-      }
-    } catch (error) {
-      console.error(`Error checking MX via ${provider.name}:`, error);
-    }
-  }
+function confidenceFor(status: VerificationStatus): VerificationResult['details']['confidence'] {
+  if (status === 'deliverable' || status === 'undeliverable') return 'high';
+  if (status === 'risky' || status === 'accept_all') return 'medium';
+  return 'low';
+}
 
-  // Fallback: Check for common mail providers
-  const commonProviders = [
-    'gmail.com', 'outlook.com', 'yahoo.com', 'hotmail.com', 'aol.com',
-    'icloud.com', 'protonmail.com', 'zoho.com', 'mail.com'
-  ];
+// Shared by every address in one request
+interface VerificationContext {
+  loadDomainFacts: (domain: string) => Promise<DomainFacts>;
+  lists: DomainLists;
+  knownDomains: string[];
+}
+
+// Main verification function: gathers checks, then derives status and reason codes from them.
+// Domain-level facts come from the shared loader so they are only worked out once per domain.
+async function verifyEmail(email: string, { loadDomainFacts, lists, knownDomains }: VerificationContext): Promise<VerificationResult> {
+  console.log(`Starting verification for: ${email}`);
   
-  if (commonProviders.some(provider => domain.toLowerCase().includes(provider))) {
-    console.log(`${domain} matches known provider pattern`);
-    return { valid: true, records: [`mail.${domain}`], provider: 'Known Provider' };
-  }
+  const result: VerificationResult = {
+    email,
+    isValid: false,
+    status: 'unknown',
+    reasons: [],
+    score: 0,
+    checks: {
+      syntax: false,
+      domain: false,
+      mx: false,
+      smtp: false,
+      catchAll: false,
+      disposable: false,
+    },
+    flags: {
+      disposable: false,
+      roleAccount: false,
+      freeWebmail: false,
+      gibberish: false,
+    },
+    details: {
+      confidence: 'low'
+    }
+  };
 
-  return { valid: false, records: [] };
-}
+  const finish = (status: VerificationStatus): VerificationResult => {
+    result.status = applyRiskReasons(status, result.reasons);
+    result.isValid = result.status === 'deliverable';
+    result.details.confidence = confidenceFor(result.status);
 
-// Enhanced SMTP verification with multiple strategies
-async function checkSMTPDeliverability(email: string, mxRecords: string[]): Promise<{
-  deliverable: boolean;
-  response: string;
-  catchAll: boolean;
-  provider?: string;
-}> {
-  if (mxRecords.length === 0) {
-    return { deliverable: false, response: 'No MX records', catchAll: false };
-  }
+    let score = 0;
+    if (result.checks.syntax) score += 15;
+    if (result.checks.disposable) score += 10;
+    if (result.checks.domain) score += 25;
+    if (result.checks.mx) score += 25;
+    if (result.checks.smtp && !result.checks.catchAll) score += 25;
+    result.score = score;
 
-  const domain = email.split('@')[1].toLowerCase();
-  const localPart = email.split('@')[0];
-
-  // Strategy 1: Known provider patterns
-  const knownPatterns = {
-    'gmail.com': /^[a-zA-Z0-9._%+-]+$/,
-    'outlook.com': /^[a-zA-Z0-9._%+-]+$/,
-    'yahoo.com': /^[a-zA-Z0-9._%+-]+$/,
-    'hotmail.com': /^[a-zA-Z0-9._%+-]+$/,
-    'aol.com': /^[a-zA-Z0-9._%+-]+$/,
-    'icloud.com': /^[a-zA-Z0-9._%+-]+$/
+    console.log(`Verification complete for ${email}: ${result.status} [${result.reasons.join(', ')}]`);
+    return result;
   };
 
-  for (const [providerDomain, pattern] of Object.entries(knownPatterns)) {
-    if (domain.includes(providerDomain) && pattern.test(localPart)) {
-      return {
-        deliverable: true,
-        response: `Valid pattern for ${providerDomain}`,
-        catchAll: false,
-        provider: providerDomain
-      };
+  try {
+    // Step 1: Syntax check with the shared RFC 5321/6531 parser
+    const parsed = parseEmailAddress(email);
+    result.checks.syntax = parsed.ok;
+    if (!parsed.ok) {
+      result.details.syntaxError = parsed.code;
+      result.reasons.push('invalid_syntax');
+      return finish('undeliverable');
     }
-  }
 
-  // Strategy 2: Corporate domain heuristics
-  if (!domain.includes('gmail') && !domain.includes('yahoo') && !domain.includes('outlook')) {
-    // For corporate domains, apply more lenient rules
-    const corporatePatterns = [
-      /^[a-zA-Z0-9._-]+$/, // Basic alphanumeric with dots, underscores, hyphens
-      /^[a-zA-Z]+\.[a-zA-Z]+$/, // first.last
-      /^[a-zA-Z][a-zA-Z0-9._-]*$/ // Starts with letter
-    ];
-
-    if (corporatePatterns.some(pattern => pattern.test(localPart))) {
-      return {
-        deliverable: true,
-        response: 'Valid corporate email pattern',
-        catchAll: false,
-        provider: 'Corporate'
-      };
+    // IDN domains are looked up and probed in their ASCII (punycode) form
+    const { localPart, domain, address } = parsed;
+    result.details.smtpUtf8 = parsed.smtpUtf8;
+
+    if (parsed.ipLiteral) {
+      // No DNS to consult and no domain-level facts to share; not worth a direct probe
+      result.reasons.push('ip_literal');
+      return finish('unknown');
+    }
+
+    // Consumer providers publish their naming rules; an address they could never issue needs no probe
+    const localPartCheck = checkLocalPart(localPart, domain);
+    result.details.canonicalEmail = localPartCheck.canonical;
+    if (!localPartCheck.ok) {
+      result.details.localPartViolation = localPartCheck.violation;
+      result.details.provider = localPartCheck.provider;
+      result.details.smtpResponse = localPartCheck.message;
+      result.reasons.push('invalid_for_provider');
+      return finish('undeliverable');
     }
-  }
 
-  // Strategy 3: Direct connectivity test (simplified)
-  for (const mailServer of mxRecords.slice(0, 3)) { // Test top 3 MX records
-    try {
-      const testResult = await testServerConnectivity(mailServer, domain);
-      if (testResult.reachable) {
-        return {
-          deliverable: true,
-          response: `Server ${mailServer} is reachable`,
-          catchAll: testResult.catchAll || false,
-          provider: mailServer
+    // Step 2: Disposable, free-webmail, role-account and gibberish flags
+    const flags = flagAddress(lists, localPart, domain);
+    result.flags = flags;
+    result.checks.disposable = !flags.disposable;
+    if (flags.disposable) result.reasons.push('disposable');
+    if (flags.freeWebmail) result.reasons.push('free_webmail');
+    if (flags.roleAccount) result.reasons.push('role_account');
+    if (flags.gibberish) result.reasons.push('gibberish');
+    
+    // Step 3: Domain phase (MX hosts, catch-all), shared by every address on the domain
+    const facts = await loadDomainFacts(domain);
+    result.checks.domain = facts.mxRecords.length > 0;
+    result.checks.mx = facts.mxRecords.length > 0;
+    result.checks.catchAll = facts.catchAll === true;
+    result.details.mxRecords = facts.mxRecords;
+    result.details.implicitMx = facts.implicitMx;
+    result.details.nullMx = facts.nullMx;
+    result.details.catchAllProbe = facts.catchAllProbe;
+    result.details.provider = facts.provider?.name;
+    result.details.providerKind = facts.provider?.kind;
+
+    // A domain without mail hosts may be a mistyped well-known one; a domain with its own working MX
+    // is taken as meant, however close it is to another
+    if (facts.mxRecords.length === 0) {
+      const suggestion = suggestDomain(domain, knownDomains);
+      if (suggestion) {
+        result.details.suggestion = {
+          email: `${localPart}@${suggestion.domain}`,
+          domain: suggestion.domain,
+          distance: suggestion.distance,
         };
+        result.reasons.push('possible_typo');
       }
-    } catch (error) {
-      console.log(`Server test failed for ${mailServer}:`, error);
     }
-  }
 
-  // Strategy 4: Final fallback based on email structure
-  const structureScore = calculateStructureScore(localPart, domain);
-  if (structureScore >= 0.6) {
-    return {
-      deliverable: true,
-      response: `High structure confidence score: ${structureScore}`,
-      catchAll: false,
-      provider: 'Structure Analysis'
-    };
-  }
+    if (facts.dnsError) {
+      // The lookup itself failed, which says nothing about the domain
+      result.reasons.push('dns_error');
+      return finish('unknown');
+    }
 
-  return {
-    deliverable: false,
-    response: 'All verification methods failed',
-    catchAll: false
-  };
-}
+    if (!result.checks.mx) {
+      result.reasons.push(facts.nullMx ? 'null_mx' : 'no_mx');
+      return finish('undeliverable');
+    }
 
-// Test server connectivity with timeout and fallbacks
-async function testServerConnectivity(mailServer: string, domain: string): Promise<{
-  reachable: boolean;
-  catchAll: boolean;
-}> {
-  try {
-    // Multiple connectivity tests
-    const tests = [
-      // Test 1: DNS resolution test
-      fetch(`https://dns.google/resolve?name=${mailServer}&type=A`, {
-        signal: AbortSignal.timeout(5000)
-      }),
-      
-      // Test 2: Port connectivity simulation
-      fetch(`https://api.hackertarget.com/nmap/?q=${mailServer}`, {
-        signal: AbortSignal.timeout(5000)
-      }),
-    ];
+    // Step 4: Mailbox phase, SMTP RCPT TO probe against the MX hosts
+    const smtpCheck = await checkSMTPDeliverability(address, facts);
+    result.checks.smtp = smtpCheck.deliverable;
+    result.details.smtpResponse = smtpCheck.response;
+    result.details.smtpCode = smtpCheck.code;
+    result.details.smtpEnhancedStatus = smtpCheck.enhancedStatus;
+    result.details.smtpHost = smtpCheck.host;
+    result.details.smtpTranscript = smtpCheck.transcript;
+
+    if (smtpCheck.code === undefined) {
+      // Greylisting and similar temporary failures: retry later instead of guessing
+      if (smtpCheck.deferred) {
+        result.reasons.push('greylisted');
+        return finish('deferred');
+      }
+      result.reasons.push(smtpFailureReason(smtpCheck.errorKind));
+      return finish('unknown');
+    }
+
+    const reply = classifyRecipientReply(smtpCheck.code, smtpCheck.enhancedStatus);
+    if (reply.status === 'deliverable' && result.checks.catchAll) {
+      // The server accepts any recipient, so an accepted RCPT says nothing about this mailbox
+      result.reasons.push('accept_all');
+      return finish('accept_all');
+    }
 
-    const results = await Promise.allSettled(tests);
-    const successCount = results.filter(r => r.status === 'fulfilled').length;
+    // Gateways known to accept everything are only trusted once the catch-all probe was rejected
+    if (reply.status === 'deliverable' && facts.provider?.acceptsAll && facts.catchAll !== false) {
+      result.reasons.push('provider_accepts_all');
+      return finish('accept_all');
+    }
+
+    result.reasons.push(reply.reason);
+    return finish(reply.status);
 
-    return {
-      reachable: successCount > 0,
-      catchAll: false
-    };
   } catch (error) {
-    return { reachable: false, catchAll: false };
+    console.error(`Error in verification for ${email}:`, error);
+    result.reasons.push('verification_error');
+    return finish('unknown');
   }
 }
 
-// Calculate email structure confidence score
-function calculateStructureScore(localPart: string, domain: string): number {
-  let score = 0;
+type VerificationSummary = ReturnType<typeof summarize>;
 
-  // Length check (reasonable length)
-  if (localPart.length >= 3 && localPart.length <= 20) score += 0.2;
-  
-  // Pattern checks
-  if (/^[a-zA-Z]/.test(localPart)) score += 0.1; // Starts with letter
-  if (!/[0-9]{4,}/.test(localPart)) score += 0.1; // Not too many consecutive numbers
-  if (!localPart.includes('..')) score += 0.1; // No double dots
-  if (!/[._-]{2,}/.test(localPart)) score += 0.1; // No consecutive separators
-  
-  // Common name patterns
-  if (/^[a-zA-Z]+[._-][a-zA-Z]+$/.test(localPart)) score += 0.3; // first.last pattern
-  if (/^[a-zA-Z][a-zA-Z0-9._-]*$/.test(localPart)) score += 0.2; // Starts with letter, reasonable chars
+type VerificationEvent =
+  | { type: 'result'; index: number; result: VerificationResult }
+  | { type: 'progress'; completed: number; total: number; summary: VerificationSummary };
 
-  return Math.min(score, 1);
+interface VerifyAllOptions {
+  supabase: SupabaseClient;
+  force: boolean;
+  source: string;
+  testId?: string;
+  run: boolean;
 }
 
-// Main verification function with bulletproof logic
-async function verifyEmail(email: string): Promise<VerificationResult> {
-  console.log(`Starting bulletproof verification for: ${email}`);
-  
-  const result: VerificationResult = {
+function summarize(results: VerificationResult[]) {
+  return {
+    total: results.length,
+    cache_hits: results.filter(r => r.cached).length,
+    unique: new Set(results.map(r => r.details.canonicalEmail ?? r.email)).size,
+    domains: new Set(results.map(r => {
+      const parsed = parseEmailAddress(r.email);
+      return parsed.ok ? parsed.domain : undefined;
+    }).filter(Boolean)).size,
+    deliverable: results.filter(r => r.status === 'deliverable').length,
+    undeliverable: results.filter(r => r.status === 'undeliverable').length,
+    accept_all: results.filter(r => r.status === 'accept_all').length,
+    risky: results.filter(r => r.status === 'risky').length,
+    unknown: results.filter(r => r.status === 'unknown').length,
+    deferred: results.filter(r => r.status === 'deferred').length,
+    high_confidence: results.filter(r => r.details.confidence === 'high').length,
+    medium_confidence: results.filter(r => r.details.confidence === 'medium').length,
+    low_confidence: results.filter(r => r.details.confidence === 'low').length,
+    success_rate: results.length > 0 ? Math.round((results.filter(r => r.isValid).length / results.length) * 100) : 0
+  };
+}
+
+function errorResult(email: string): VerificationResult {
+  return {
     email,
     isValid: false,
+    status: 'unknown',
+    reasons: ['verification_error'],
     score: 0,
     checks: {
-      syntax: false,
+      syntax: isValidEmailAddress(email),
       domain: false,
       mx: false,
       smtp: false,
       catchAll: false,
+      disposable: true,
+    },
+    flags: {
       disposable: false,
+      roleAccount: false,
+      freeWebmail: false,
+      gibberish: false,
     },
     details: {
-      confidence: 'low'
+      confidence: 'low',
+      smtpResponse: 'Error during verification'
     }
   };
+}
+
+// Verifies every address, reporting each result as it completes and a progress event after each batch.
+// With a testId the results are also written to that test's candidates as they arrive, and the run is
+// recorded as a verify step on the test's timeline.
+async function verifyAll(
+  emails: string[],
+  { supabase, force, source, testId, run }: VerifyAllOptions,
+  onEvent: (event: VerificationEvent) => void = () => {}
+): Promise<VerificationResult[]> {
+  let stepId: string | null = null;
+  if (testId) {
+    // Re-verifying a completed test, or candidates added after the first run, reopens it
+    await transitionTest(supabase, testId, 'verifying');
+    stepId = await startTestStep(supabase, testId, 'verify', { total: emails.length, source });
+  }
 
   try {
-    // Step 1: Enhanced syntax check
-    result.checks.syntax = validateEmailSyntax(email);
-    if (!result.checks.syntax) {
-      console.log(`Syntax check failed for ${email}`);
-      return result;
-    }
+    const context: VerificationContext = {
+      loadDomainFacts: createDomainFactsLoader(supabase),
+      lists: await loadDomainLists(supabase),
+      knownDomains: await loadKnownDomains(supabase),
+    };
 
-    const domain = email.split('@')[1].toLowerCase();
-    
-    // Step 2: Disposable email check
-    result.checks.disposable = !isDisposableEmail(domain);
-    
-    // Step 3: Enhanced MX record check with fallbacks
-    const mxCheck = await checkMXRecords(domain);
-    result.checks.domain = mxCheck.valid;
-    result.checks.mx = mxCheck.valid;
-    result.details.mxRecords = mxCheck.records;
-    result.details.provider = mxCheck.provider;
-
-    // Step 4: Enhanced SMTP check with multiple strategies
-    if (result.checks.mx) {
-      const smtpCheck = await checkSMTPDeliverability(email, mxCheck.records);
-      result.checks.smtp = smtpCheck.deliverable;
-      result.checks.catchAll = smtpCheck.catchAll;
-      result.details.smtpResponse = smtpCheck.response;
-      if (smtpCheck.provider) {
-        result.details.provider = smtpCheck.provider;
+    // Addresses verified recently, by any test, are served from the cache unless the caller forces a re-check
+    const cache = force
+      ? new Map()
+      : await loadCachedVerifications<VerificationResult>(supabase, emails.map(canonicalizeEmail));
+
+    // Equivalent spellings (J.Doe+news@gmail.com, jdoe@googlemail.com) are verified once and share the result
+    const verifications = new Map<string, Promise<VerificationResult>>();
+    const verifyOnce = async (email: string): Promise<VerificationResult> => {
+      const key = canonicalizeEmail(email);
+      const hit = cache.get(key);
+      if (hit) {
+        return { ...hit.result, email, cached: { verifiedAt: hit.verifiedAt, source: hit.source } };
       }
-    }
 
-    // Bulletproof scoring system - more lenient for better success rate
-    let score = 0;
-    if (result.checks.syntax) score += 15;
-    if (result.checks.disposable) score += 10;
-    if (result.checks.domain) score += 25;
-    if (result.checks.mx) score += 25;
-    if (result.checks.smtp) score += 25;
-    
-    result.score = score;
-    
-    // More lenient validation - aim for 100% success rate
-    result.isValid = score >= 50 || (result.checks.syntax && result.checks.mx);
-
-    // Smart confidence calculation
-    if (score >= 85) {
-      result.details.confidence = 'high';
-    } else if (score >= 50 || (result.checks.syntax && result.checks.mx)) {
-      result.details.confidence = 'medium';
-    } else {
-      result.details.confidence = 'low';
+      let verification = verifications.get(key);
+      if (!verification) {
+        verification = verifyEmail(email, context);
+        verifications.set(key, verification);
+      }
+      return { ...await verification, email };
+    };
+
+    const results: VerificationResult[] = [];
+    const storedStatuses: string[] = [];
+    let completed = 0;
+
+    // Process emails with controlled concurrency
+    const batchSize = 3; // Reduced for more reliability
+    for (let i = 0; i < emails.length; i += batchSize) {
+      const batch = emails.slice(i, i + batchSize);
+      const batchResults = await Promise.all(batch.map(async (email, offset) => {
+        const result = await verifyOnce(email).catch((error): VerificationResult => {
+          console.error(`Batch error for ${email}:`, error);
+          // Return a basic result even on error
+          return errorResult(email);
+        });
+        if (testId) {
+          storedStatuses.push(await recordCandidateResult(supabase, testId, result));
+        }
+        completed++;
+        onEvent({ type: 'result', index: i + offset, result });
+        return result;
+      }));
+      results.push(...batchResults);
+      onEvent({ type: 'progress', completed, total: emails.length, summary: summarize(results) });
+
+      // Brief pause between batches that reached out to mail servers
+      const verifiedFresh = batchResults.some(result => !result.cached);
+      if (verifiedFresh && i + batchSize < emails.length) {
+        await new Promise(resolve => setTimeout(resolve, 500));
+      }
     }
 
-    console.log(`Bulletproof verification complete for ${email}: Score ${score}, Valid: ${result.isValid}, Confidence: ${result.details.confidence}`);
-    return result;
+    const fresh = await Promise.all(
+      [...verifications].map(async ([canonicalEmail, verification]) => ({ canonicalEmail, result: await verification }))
+    );
+    await storeVerifications(supabase, fresh, source);
+
+    if (testId) {
+      await finishTestStep(supabase, stepId, { source, ...summarize(results) });
+      await completeTestVerification(supabase, testId, storedStatuses);
+    }
 
+    return results;
   } catch (error) {
-    console.error(`Error in verification for ${email}:`, error);
-    
-    // Even if there are errors, if we have basic syntax and domain, mark as valid
-    if (result.checks.syntax && domain) {
-      result.isValid = true;
-      result.score = 50;
-      result.details.confidence = 'medium';
-      result.details.smtpResponse = 'Fallback validation due to network issues';
+    await failTestStep(supabase, stepId, (error as Error).message);
+    // A claimed job is retried by the worker, which fails the test itself once the job is dead-lettered
+    if (testId && !run) {
+      await transitionTest(supabase, testId, 'failed');
     }
-    
-    return result;
+    throw error;
   }
 }
 
+const encoder = new TextEncoder();
+
+function serverSentEvent(event: string, data: unknown): Uint8Array {
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Streaming mode: Server-Sent Events for each result and batch, then a final 'done' with the summary
+function streamVerification(emails: string[], options: VerifyAllOptions): Response {
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: string, data: unknown) => {
+        try {
+          controller.enqueue(serverSentEvent(event, data));
+        } catch {
+          // The client went away; keep verifying so the results are still recorded
+        }
+      };
+
+      try {
+        const results = await verifyAll(emails, options, event => send(event.type, event));
+        send('done', { summary: summarize(results) });
+      } catch (error) {
+        console.error('Error in streamed verification:', error);
+        send('error', { error: (error as Error).message });
+      } finally {
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      }
+    }
+  });
+
+  return new Response(body, {
+    headers: { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' }
+  });
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response(null, { headers: corsHeaders });
   }
 
   try {
-    const { emails } = await req.json();
+    // run: true is the job worker executing a queued verification
+    const { emails, force = false, source = 'verify-email-advanced', testId, stream = false, run = false } = await req.json();
 
-    if (!emails || !Array.isArray(emails)) {
+    if (!emails || !Array.isArray(emails) || emails.some(email => typeof email !== 'string')) {
       return new Response(
         JSON.stringify({ error: 'Emails array is required' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    console.log(`Starting bulletproof verification for ${emails.length} emails`);
+    console.log(`Starting ${stream ? 'streamed ' : ''}verification for ${emails.length} emails`);
 
-    const results: VerificationResult[] = [];
-    
-    // Process emails with controlled concurrency
-    const batchSize = 3; // Reduced for more reliability
-    for (let i = 0; i < emails.length; i += batchSize) {
-      const batch = emails.slice(i, i + batchSize);
-      const batchPromises = batch.map(email => 
-        verifyEmail(email).catch(error => {
-          console.error(`Batch error for ${email}:`, error);
-          // Return a basic result even on error
-          return {
-            email,
-            isValid: validateEmailSyntax(email),
-            score: validateEmailSyntax(email) ? 50 : 0,
-            checks: {
-              syntax: validateEmailSyntax(email),
-              domain: false,
-              mx: false,
-              smtp: false,
-              catchAll: false,
-              disposable: true,
-            },
-            details: {
-              confidence: 'low' as const,
-              smtpResponse: 'Error during verification'
-            }
-          };
-        })
-      );
-      
-      const batchResults = await Promise.all(batchPromises);
-      results.push(...batchResults);
-      
-      // Brief pause between batches
-      if (i + batchSize < emails.length) {
-        await new Promise(resolve => setTimeout(resolve, 500));
-      }
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+    const options: VerifyAllOptions = { supabase, force, source, testId, run };
+
+    if (stream) {
+      return streamVerification(emails, options);
     }
 
-    const summary = {
-      total: results.length,
-      valid: results.filter(r => r.isValid).length,
-      high_confidence: results.filter(r => r.details.confidence === 'high').length,
-      medium_confidence: results.filter(r => r.details.confidence === 'medium').length,
-      low_confidence: results.filter(r => r.details.confidence === 'low').length,
-      success_rate: Math.round((results.filter(r => r.isValid).length / results.length) * 100)
-    };
+    const results = await verifyAll(emails, options);
+    const summary = summarize(results);
 
-    console.log(`Bulletproof verification completed: ${summary.success_rate}% success rate`);
+    console.log(`Verification completed: ${summary.deliverable}/${summary.total} deliverable`);
 
     return new Response(
       JSON.stringify({ 
@@ -428,4 +543,4 @@ serve(async (req) => {
       { status: 500, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
   }
-});
\ No newline at end of file
+});
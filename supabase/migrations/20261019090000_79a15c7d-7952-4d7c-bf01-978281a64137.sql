@@ -0,0 +1,10 @@
+-- Track greylisting deferrals so candidates can be re-verified with backoff
+ALTER TABLE public.email_candidates
+ADD COLUMN IF NOT EXISTS verification_attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS next_retry_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS retry_expires_at TIMESTAMP WITH TIME ZONE;
+
+-- The retry worker only ever looks for deferred candidates that are due
+CREATE INDEX IF NOT EXISTS idx_email_candidates_deferred_retry
+ON public.email_candidates(next_retry_at)
+WHERE verification_status = 'deferred';
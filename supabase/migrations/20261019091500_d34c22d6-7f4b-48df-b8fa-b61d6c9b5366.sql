@@ -0,0 +1,21 @@
+-- Calibrated verification outcomes: deliverable, undeliverable, accept_all, risky, unknown
+-- (plus the transient deferred state and the delivery-test / bounce statuses).
+-- Old 'valid' results came from lenient heuristics, so they carry no verdict.
+UPDATE public.email_candidates SET verification_status = 'unknown' WHERE verification_status = 'valid';
+UPDATE public.email_candidates SET verification_status = 'undeliverable' WHERE verification_status = 'invalid';
+UPDATE public.email_candidates
+SET verification_status = 'unknown'
+WHERE verification_status NOT IN (
+  'pending', 'deliverable', 'undeliverable', 'accept_all', 'risky', 'unknown', 'deferred',
+  'delivery_confirmed', 'delivery_failed', 'bounced'
+);
+
+ALTER TABLE public.email_candidates
+ADD CONSTRAINT email_candidates_verification_status_check
+CHECK (verification_status IN (
+  'pending', 'deliverable', 'undeliverable', 'accept_all', 'risky', 'unknown', 'deferred',
+  'delivery_confirmed', 'delivery_failed', 'bounced'
+));
+
+CREATE INDEX IF NOT EXISTS idx_email_candidates_verification_status
+ON public.email_candidates(verification_status);
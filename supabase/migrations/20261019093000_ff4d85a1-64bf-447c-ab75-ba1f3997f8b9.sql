@@ -0,0 +1,33 @@
+-- Per-domain verification facts (mail hosts, catch-all behaviour), reused across requests until expiry
+CREATE TABLE public.domain_facts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  domain TEXT NOT NULL UNIQUE,
+  mx_records TEXT[] NOT NULL DEFAULT '{}',
+  implicit_mx BOOLEAN NOT NULL DEFAULT false,
+  null_mx BOOLEAN NOT NULL DEFAULT false,
+  catch_all BOOLEAN,
+  catch_all_probe TEXT,
+  checked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.domain_facts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view domain facts"
+ON public.domain_facts
+FOR SELECT
+USING (true);
+
+CREATE POLICY "System can manage domain facts"
+ON public.domain_facts
+FOR ALL
+USING (true);
+
+CREATE TRIGGER update_domain_facts_updated_at
+  BEFORE UPDATE ON public.domain_facts
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_domain_facts_expires_at ON public.domain_facts(expires_at);
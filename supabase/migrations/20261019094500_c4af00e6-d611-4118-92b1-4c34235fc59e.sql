@@ -0,0 +1,29 @@
+-- Maintained domain lists for address flags: disposable providers and free webmail.
+-- Seeded from the bundled lists through the import-domain-lists function.
+CREATE TABLE public.disposable_domains (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  domain TEXT NOT NULL UNIQUE,
+  category TEXT NOT NULL DEFAULT 'disposable' CHECK (category IN ('disposable', 'free_webmail')),
+  source TEXT NOT NULL DEFAULT 'bundled',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.disposable_domains ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view disposable domains"
+ON public.disposable_domains
+FOR SELECT
+USING (true);
+
+CREATE POLICY "System can manage disposable domains"
+ON public.disposable_domains
+FOR ALL
+USING (true);
+
+CREATE TRIGGER update_disposable_domains_updated_at
+  BEFORE UPDATE ON public.disposable_domains
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_disposable_domains_category ON public.disposable_domains(category);
@@ -0,0 +1,69 @@
+-- MX hostname rules for mail provider fingerprinting
+CREATE TABLE public.mail_provider_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  provider TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('mailbox', 'gateway')),
+  mx_suffix TEXT NOT NULL UNIQUE,
+  accepts_all BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.mail_provider_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view mail provider rules"
+ON public.mail_provider_rules
+FOR SELECT
+USING (true);
+
+CREATE POLICY "System can manage mail provider rules"
+ON public.mail_provider_rules
+FOR ALL
+USING (true);
+
+CREATE TRIGGER update_mail_provider_rules_updated_at
+  BEFORE UPDATE ON public.mail_provider_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- accepts_all marks providers whose RCPT TO answer cannot be trusted
+INSERT INTO public.mail_provider_rules (provider, kind, mx_suffix, accepts_all) VALUES
+  ('Google Workspace', 'mailbox', 'google.com', false),
+  ('Google Workspace', 'mailbox', 'googlemail.com', false),
+  ('Microsoft 365', 'mailbox', 'mail.protection.outlook.com', false),
+  ('Outlook.com', 'mailbox', 'olc.protection.outlook.com', false),
+  ('Zoho Mail', 'mailbox', 'zoho.com', false),
+  ('Zoho Mail', 'mailbox', 'zoho.eu', false),
+  ('Zoho Mail', 'mailbox', 'zoho.in', false),
+  ('Zoho Mail', 'mailbox', 'zohomail.com', false),
+  ('Yahoo', 'mailbox', 'yahoodns.net', true),
+  ('iCloud Mail', 'mailbox', 'mail.icloud.com', false),
+  ('Fastmail', 'mailbox', 'messagingengine.com', false),
+  ('Proton Mail', 'mailbox', 'protonmail.ch', false),
+  ('Yandex Mail', 'mailbox', 'yandex.net', false),
+  ('Mail.ru', 'mailbox', 'mail.ru', false),
+  ('Rackspace Email', 'mailbox', 'emailsrvr.com', false),
+  ('GoDaddy', 'mailbox', 'secureserver.net', false),
+  ('IONOS', 'mailbox', 'kundenserver.de', false),
+  ('IONOS', 'mailbox', 'ionos.com', false),
+  ('OVHcloud', 'mailbox', 'ovh.net', false),
+  ('Amazon WorkMail', 'mailbox', 'amazonaws.com', false),
+  ('Proofpoint', 'gateway', 'pphosted.com', true),
+  ('Proofpoint Essentials', 'gateway', 'ppe-hosted.com', true),
+  ('Mimecast', 'gateway', 'mimecast.com', true),
+  ('Barracuda', 'gateway', 'barracudanetworks.com', true),
+  ('Cisco Secure Email', 'gateway', 'iphmx.com', true),
+  ('Trend Micro', 'gateway', 'trendmicro.com', true),
+  ('Trend Micro', 'gateway', 'trendmicro.eu', true),
+  ('Sophos', 'gateway', 'hydra.sophos.com', true),
+  ('Symantec Email Security', 'gateway', 'messagelabs.com', true),
+  ('Forcepoint', 'gateway', 'mailcontrol.com', true),
+  ('SpamExperts', 'gateway', 'spamexperts.com', true),
+  ('SpamExperts', 'gateway', 'spamexperts.eu', true),
+  ('Hornetsecurity', 'gateway', 'hornetsecurity.com', true);
+
+-- The fingerprinted provider is stored with the rest of the domain facts
+ALTER TABLE public.domain_facts
+ADD COLUMN IF NOT EXISTS provider TEXT,
+ADD COLUMN IF NOT EXISTS provider_kind TEXT,
+ADD COLUMN IF NOT EXISTS provider_accepts_all BOOLEAN NOT NULL DEFAULT false;
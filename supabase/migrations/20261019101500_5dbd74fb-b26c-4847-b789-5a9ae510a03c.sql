@@ -0,0 +1,33 @@
+-- Latest email-authentication snapshot (SPF, DMARC, MTA-STS, TLS-RPT, BIMI) per domain
+CREATE TABLE public.domain_auth_reports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  domain TEXT NOT NULL UNIQUE,
+  spf JSONB NOT NULL DEFAULT '{}'::jsonb,
+  dmarc JSONB NOT NULL DEFAULT '{}'::jsonb,
+  mta_sts JSONB NOT NULL DEFAULT '{}'::jsonb,
+  tls_rpt JSONB NOT NULL DEFAULT '{}'::jsonb,
+  bimi JSONB NOT NULL DEFAULT '{}'::jsonb,
+  findings JSONB NOT NULL DEFAULT '[]'::jsonb,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  warning_count INTEGER NOT NULL DEFAULT 0,
+  checked_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.domain_auth_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view domain auth reports"
+ON public.domain_auth_reports
+FOR SELECT
+USING (true);
+
+CREATE POLICY "System can manage domain auth reports"
+ON public.domain_auth_reports
+FOR ALL
+USING (true);
+
+CREATE TRIGGER update_domain_auth_reports_updated_at
+  BEFORE UPDATE ON public.domain_auth_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
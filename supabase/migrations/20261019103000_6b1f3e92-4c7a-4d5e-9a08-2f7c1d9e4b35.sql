@@ -0,0 +1,39 @@
+-- Canonical form of each address (see _shared/canonical-email.ts) so the same mailbox spelt
+-- differently (John.Doe+x@Gmail.com, johndoe@gmail.com) matches across tables.
+ALTER TABLE public.email_candidates ADD COLUMN canonical_email TEXT;
+ALTER TABLE public.found_emails ADD COLUMN canonical_email TEXT;
+ALTER TABLE public.email_test_results ADD COLUMN canonical_email TEXT;
+
+-- Backfill with the same rules as canonicalizeEmail(): lower-case, Gmail ignores dots and
+-- googlemail.com is gmail.com, and '+' tags are dropped only on the providers known to support
+-- them (the rules in _shared/local-part-rules.ts with a subaddressSeparator).
+-- Stored addresses already carry ASCII (punycode) domains.
+CREATE FUNCTION pg_temp.canonical_email(address TEXT) RETURNS TEXT AS $$
+DECLARE
+  local_part TEXT := lower(split_part(address, '@', 1));
+  domain TEXT := lower(substring(address FROM position('@' IN address) + 1));
+BEGIN
+  IF position('@' IN address) = 0 OR left(local_part, 1) = '"' THEN
+    RETURN lower(address);
+  END IF;
+  IF domain IN ('gmail.com', 'googlemail.com',
+                'outlook.com', 'hotmail.com', 'live.com', 'msn.com', 'hotmail.co.uk', 'live.co.uk', 'outlook.fr', 'hotmail.fr',
+                'icloud.com', 'me.com', 'mac.com')
+     AND position('+' IN local_part) > 0 THEN
+    local_part := split_part(local_part, '+', 1);
+  END IF;
+  IF domain IN ('gmail.com', 'googlemail.com') THEN
+    local_part := replace(local_part, '.', '');
+    domain := 'gmail.com';
+  END IF;
+  RETURN local_part || '@' || domain;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+UPDATE public.email_candidates SET canonical_email = pg_temp.canonical_email(email_address);
+UPDATE public.found_emails SET canonical_email = pg_temp.canonical_email(email_address);
+UPDATE public.email_test_results SET canonical_email = pg_temp.canonical_email(email);
+
+CREATE INDEX idx_email_candidates_canonical_email ON public.email_candidates(canonical_email);
+CREATE INDEX idx_found_emails_canonical_email ON public.found_emails(canonical_email);
+CREATE INDEX idx_email_test_results_canonical_email ON public.email_test_results(canonical_email);
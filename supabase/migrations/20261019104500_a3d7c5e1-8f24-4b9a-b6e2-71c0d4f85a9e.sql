@@ -0,0 +1,31 @@
+-- Last verification result per mailbox, shared across tests until it expires
+CREATE TABLE public.email_verifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  canonical_email TEXT NOT NULL UNIQUE,
+  status TEXT NOT NULL CHECK (status IN ('deliverable', 'undeliverable', 'accept_all', 'risky', 'unknown', 'deferred')),
+  result JSONB NOT NULL,
+  source TEXT NOT NULL,
+  verified_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.email_verifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view email verifications"
+ON public.email_verifications
+FOR SELECT
+USING (true);
+
+CREATE POLICY "System can manage email verifications"
+ON public.email_verifications
+FOR ALL
+USING (true);
+
+CREATE TRIGGER update_email_verifications_updated_at
+  BEFORE UPDATE ON public.email_verifications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_email_verifications_expires_at ON public.email_verifications(expires_at);
@@ -0,0 +1,62 @@
+-- Durable background work (crawls, candidate generation, verification, delivery tests).
+-- A worker claims due jobs under a lease; a job whose worker dies is claimed again once the lease
+-- lapses. Failed attempts back off exponentially, and jobs out of attempts are dead-lettered.
+CREATE TABLE public.jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  type TEXT NOT NULL CHECK (type IN ('crawl', 'generate', 'verify', 'deliver')),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'dead')),
+  test_id UUID REFERENCES public.tests(id) ON DELETE CASCADE,
+  payload JSONB NOT NULL DEFAULT '{}',
+  result JSONB,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_by TEXT,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view jobs"
+ON public.jobs
+FOR SELECT
+USING (true);
+
+CREATE POLICY "System can manage jobs"
+ON public.jobs
+FOR ALL
+USING (true);
+
+CREATE TRIGGER update_jobs_updated_at
+  BEFORE UPDATE ON public.jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_jobs_due ON public.jobs(status, run_at);
+CREATE INDEX idx_jobs_test_id ON public.jobs(test_id);
+
+-- Claims up to max_jobs due jobs (queued and due, or running with a lapsed lease) in one statement,
+-- so concurrent workers never take the same job
+CREATE OR REPLACE FUNCTION public.claim_jobs(worker_id TEXT, lease_seconds INTEGER, max_jobs INTEGER)
+RETURNS SETOF public.jobs
+LANGUAGE sql
+AS $$
+  UPDATE public.jobs
+  SET status = 'running',
+      attempts = attempts + 1,
+      locked_by = worker_id,
+      locked_until = now() + make_interval(secs => lease_seconds)
+  WHERE id IN (
+    SELECT id FROM public.jobs
+    WHERE (status = 'queued' AND run_at <= now())
+       OR (status = 'running' AND locked_until < now())
+    ORDER BY run_at
+    LIMIT max_jobs
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
@@ -0,0 +1,71 @@
+-- Test lifecycle: pending -> generating -> verifying -> completed, with failed reachable from any
+-- active state. Completed and failed tests can be picked up again (resume, regenerate, re-verify).
+-- Transitions are enforced here so every writer (edge functions, workers, the app) follows them.
+UPDATE public.tests
+SET status = 'failed'
+WHERE status NOT IN ('pending', 'generating', 'verifying', 'completed', 'failed');
+
+ALTER TABLE public.tests
+ADD CONSTRAINT tests_status_check
+CHECK (status IN ('pending', 'generating', 'verifying', 'completed', 'failed'));
+
+CREATE OR REPLACE FUNCTION public.enforce_test_status_transition()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT CASE OLD.status
+    WHEN 'pending' THEN NEW.status IN ('generating', 'failed')
+    WHEN 'generating' THEN NEW.status IN ('verifying', 'completed', 'failed')
+    WHEN 'verifying' THEN NEW.status IN ('completed', 'failed')
+    WHEN 'completed' THEN NEW.status IN ('generating', 'verifying')
+    WHEN 'failed' THEN NEW.status IN ('generating', 'verifying')
+    ELSE false
+  END THEN
+    RAISE EXCEPTION 'Invalid test status transition from % to %', OLD.status, NEW.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER enforce_tests_status_transition
+  BEFORE UPDATE OF status ON public.tests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_test_status_transition();
+
+-- One row per run of a lifecycle phase, so a test's timeline shows where it is and why it failed
+CREATE TABLE public.test_steps (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  test_id UUID NOT NULL REFERENCES public.tests(id) ON DELETE CASCADE,
+  step TEXT NOT NULL CHECK (step IN ('crawl', 'generate', 'verify')),
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'succeeded', 'failed')),
+  details JSONB NOT NULL DEFAULT '{}',
+  error_message TEXT,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  finished_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.test_steps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view test steps"
+ON public.test_steps
+FOR SELECT
+USING (true);
+
+CREATE POLICY "System can manage test steps"
+ON public.test_steps
+FOR ALL
+USING (true);
+
+CREATE TRIGGER update_test_steps_updated_at
+  BEFORE UPDATE ON public.test_steps
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_test_steps_test_id ON public.test_steps(test_id, started_at);
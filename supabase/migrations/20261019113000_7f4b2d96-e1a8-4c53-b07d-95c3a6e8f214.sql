@@ -0,0 +1,17 @@
+-- Candidate ordering gets columns of its own: verification overwrites verification_result, which is
+-- where the priority used to live. ranking_source records whether a candidate's priority came from
+-- patterns crawled on the domain or from the built-in defaults.
+ALTER TABLE public.email_candidates
+ADD COLUMN IF NOT EXISTS priority_score INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS ranking_source TEXT NOT NULL DEFAULT 'default' CHECK (ranking_source IN ('default', 'crawl'));
+
+UPDATE public.email_candidates
+SET priority_score = (verification_result->>'priority_score')::INTEGER
+WHERE verification_result->>'priority_score' IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_email_candidates_priority ON public.email_candidates(test_id, priority_score DESC);
+
+-- Re-ranking a test's candidates once its domain crawl finishes is a phase of its own on the timeline
+ALTER TABLE public.test_steps DROP CONSTRAINT IF EXISTS test_steps_step_check;
+ALTER TABLE public.test_steps
+ADD CONSTRAINT test_steps_step_check CHECK (step IN ('crawl', 'generate', 'rerank', 'verify'));
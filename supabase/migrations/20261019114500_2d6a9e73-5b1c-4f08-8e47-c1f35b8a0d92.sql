@@ -0,0 +1,20 @@
+-- A test has each candidate address once, so generation can be re-run (or retried by the job worker)
+-- as an upsert. Duplicates left by earlier runs are collapsed first, keeping the row that has a
+-- verification result, then the most recently updated.
+DELETE FROM public.email_candidates c
+USING (
+  SELECT id, ROW_NUMBER() OVER (
+    PARTITION BY test_id, email_address
+    ORDER BY (verification_status <> 'pending') DESC, updated_at DESC
+  ) AS position
+  FROM public.email_candidates
+) ranked
+WHERE c.id = ranked.id
+  AND ranked.position > 1;
+
+ALTER TABLE public.email_candidates
+ADD CONSTRAINT email_candidates_test_id_email_address_key UNIQUE (test_id, email_address);
+
+-- Upserts leave verification_status out so existing results survive; new rows rely on this default
+ALTER TABLE public.email_candidates
+ALTER COLUMN verification_status SET DEFAULT 'pending';
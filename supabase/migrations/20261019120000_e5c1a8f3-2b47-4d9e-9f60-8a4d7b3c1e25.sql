@@ -0,0 +1,9 @@
+-- Patterns a user adds to a test, in the template language of _shared/email-pattern.ts
+-- (e.g. {f}{last:7}). They are validated by the form and again at generation time.
+ALTER TABLE public.tests
+ADD COLUMN IF NOT EXISTS custom_patterns TEXT[] NOT NULL DEFAULT '{}';
+
+-- Candidates produced by a custom pattern are ranked by the user's choice rather than by evidence
+ALTER TABLE public.email_candidates DROP CONSTRAINT IF EXISTS email_candidates_ranking_source_check;
+ALTER TABLE public.email_candidates
+ADD CONSTRAINT email_candidates_ranking_source_check CHECK (ranking_source IN ('default', 'crawl', 'user'));
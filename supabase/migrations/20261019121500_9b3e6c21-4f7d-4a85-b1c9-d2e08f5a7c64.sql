@@ -0,0 +1,27 @@
+-- Generation records which spelling of the name produced a candidate (verification_result.name_variant,
+-- e.g. a nickname) so the results can explain it. Verification rewrites the whole result, and
+-- re-generation writes only the variant, so each keeps the other's part of the document.
+CREATE OR REPLACE FUNCTION public.preserve_candidate_name_variant()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.verification_result IS NULL OR NEW.verification_result IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.verification_result - 'name_variant' = '{}'::jsonb THEN
+    -- Written by generation: refresh the variant, keep any verdict
+    NEW.verification_result := OLD.verification_result || NEW.verification_result;
+  ELSIF NOT NEW.verification_result ? 'name_variant' AND OLD.verification_result ? 'name_variant' THEN
+    -- Written by verification: keep the variant
+    NEW.verification_result := NEW.verification_result
+      || jsonb_build_object('name_variant', OLD.verification_result -> 'name_variant');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER preserve_email_candidates_name_variant
+  BEFORE UPDATE OF verification_result ON public.email_candidates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.preserve_candidate_name_variant();
@@ -0,0 +1,10 @@
+-- Optional middle name for the {middle} / {m} pattern placeholders, and the order the person writes
+-- their names in: first_name stays the given name and last_name the family name, while name_order
+-- decides what {name1} and {name2} render (family_first for East Asian and Hungarian names).
+ALTER TABLE public.tests
+ADD COLUMN IF NOT EXISTS middle_name TEXT,
+ADD COLUMN IF NOT EXISTS name_order TEXT NOT NULL DEFAULT 'given_first';
+
+ALTER TABLE public.tests DROP CONSTRAINT IF EXISTS tests_name_order_check;
+ALTER TABLE public.tests
+ADD CONSTRAINT tests_name_order_check CHECK (name_order IN ('given_first', 'family_first'));
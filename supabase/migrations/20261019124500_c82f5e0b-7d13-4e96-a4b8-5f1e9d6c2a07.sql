@@ -0,0 +1,40 @@
+-- Pattern priors learned from crawl samples, delivery confirmations and bounces (see
+-- _shared/pattern-priors.ts), one row per pattern at each level that has evidence: global
+-- (scope_key ''), per TLD and per domain. Rebuilt by the 'priors' job; generation ranks with them.
+CREATE TABLE public.pattern_priors (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  scope TEXT NOT NULL CHECK (scope IN ('global', 'tld', 'domain')),
+  scope_key TEXT NOT NULL DEFAULT '',
+  pattern TEXT NOT NULL,
+  successes INTEGER NOT NULL DEFAULT 0,
+  failures INTEGER NOT NULL DEFAULT 0,
+  prior NUMERIC NOT NULL CHECK (prior >= 0 AND prior <= 1),
+  computed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (scope, scope_key, pattern)
+);
+
+ALTER TABLE public.pattern_priors ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view pattern priors"
+ON public.pattern_priors
+FOR SELECT
+USING (true);
+
+CREATE POLICY "System can manage pattern priors"
+ON public.pattern_priors
+FOR ALL
+USING (true);
+
+CREATE TRIGGER update_pattern_priors_updated_at
+  BEFORE UPDATE ON public.pattern_priors
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_pattern_priors_computed_at ON public.pattern_priors(computed_at);
+
+-- Recomputing priors is background work that belongs to no test
+ALTER TABLE public.jobs DROP CONSTRAINT IF EXISTS jobs_type_check;
+ALTER TABLE public.jobs
+ADD CONSTRAINT jobs_type_check CHECK (type IN ('crawl', 'generate', 'verify', 'deliver', 'priors'));
@@ -0,0 +1,29 @@
+-- Greylisted candidates only resolve when retry-deferred-verifications runs, so call it on a
+-- schedule. Each run re-verifies the candidates whose retry is due; the shortest retry delay is
+-- five minutes, so running more often gains nothing.
+--
+-- The project URL and the key come from Vault, set once in each environment so a local stack or a
+-- branch project calls its own functions:
+--   SELECT vault.create_secret('https://<project-ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<anon key>', 'anon_key');
+-- Until both exist the scheduled call does nothing.
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'retry-deferred-verifications',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := project_url || '/functions/v1/retry-deferred-verifications',
+    headers := jsonb_build_object('Content-Type', 'application/json', 'Authorization', 'Bearer ' || anon_key),
+    body := '{}'::jsonb
+  )
+  FROM (
+    SELECT
+      (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') AS project_url,
+      (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'anon_key') AS anon_key
+  ) AS settings
+  WHERE project_url IS NOT NULL AND anon_key IS NOT NULL;
+  $$
+);
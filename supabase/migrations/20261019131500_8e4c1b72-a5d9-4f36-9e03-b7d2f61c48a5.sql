@@ -0,0 +1,28 @@
+-- Run the job worker every minute. Producers nudge it when they enqueue, but jobs requeued with a
+-- backoff, leases that lapsed and nudges that failed are only picked up by a scheduled run.
+-- Uses the same Vault secrets (project_url, anon_key) as the retry-deferred-verifications schedule.
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'process-jobs',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := project_url || '/functions/v1/process-jobs',
+    headers := jsonb_build_object('Content-Type', 'application/json', 'Authorization', 'Bearer ' || anon_key),
+    body := '{}'::jsonb
+  )
+  FROM (
+    SELECT
+      (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') AS project_url,
+      (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'anon_key') AS anon_key
+  ) AS settings
+  WHERE project_url IS NOT NULL AND anon_key IS NOT NULL;
+  $$
+);
+
+-- Delivery tests run directly from send-test-email / test-real-delivery; nothing ever queued them
+ALTER TABLE public.jobs DROP CONSTRAINT IF EXISTS jobs_type_check;
+ALTER TABLE public.jobs
+ADD CONSTRAINT jobs_type_check CHECK (type IN ('crawl', 'generate', 'verify', 'priors'));
@@ -0,0 +1,5 @@
+-- Role-account local parts (info, sales, ...) join the maintained lists, so import-domain-lists
+-- updates role-account detection too. Their rows hold the local part in the domain column.
+ALTER TABLE public.disposable_domains DROP CONSTRAINT IF EXISTS disposable_domains_category_check;
+ALTER TABLE public.disposable_domains
+ADD CONSTRAINT disposable_domains_category_check CHECK (category IN ('disposable', 'free_webmail', 'role_account'));
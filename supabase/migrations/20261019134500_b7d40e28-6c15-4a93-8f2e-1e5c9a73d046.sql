@@ -0,0 +1,14 @@
+-- Consumer Gmail is delivered through the same google.com MX hosts as Google Workspace, so a rule can
+-- be limited to one mail domain; such a rule wins over the general rules for the same hosts.
+ALTER TABLE public.mail_provider_rules ADD COLUMN domain TEXT;
+
+ALTER TABLE public.mail_provider_rules DROP CONSTRAINT IF EXISTS mail_provider_rules_mx_suffix_key;
+CREATE UNIQUE INDEX idx_mail_provider_rules_mx_suffix_domain
+ON public.mail_provider_rules(mx_suffix, COALESCE(domain, ''));
+
+INSERT INTO public.mail_provider_rules (provider, kind, mx_suffix, accepts_all, domain) VALUES
+  ('Gmail', 'mailbox', 'google.com', false, 'gmail.com'),
+  ('Gmail', 'mailbox', 'google.com', false, 'googlemail.com');
+
+-- Stored facts labelled these domains Google Workspace; let them be recomputed
+DELETE FROM public.domain_facts WHERE domain IN ('gmail.com', 'googlemail.com');